@@ -4,6 +4,7 @@ import ProtectedRoute from './components/admin/ProtectedRoute'
 import CustomerDetails from './pages/CustomerDetails'
 import Questionnaire from './pages/Questionnaire'
 import ThankYou from './pages/ThankYou'
+import ResumeQuestionnaire from './pages/ResumeQuestionnaire'
 import AdminLogin from './pages/admin/AdminLogin'
 import AdminLayout from './pages/admin/AdminLayout'
 import Dashboard from './pages/admin/Dashboard'
@@ -12,6 +13,12 @@ import SectionsManager from './pages/admin/SectionsManager'
 import QuestionsManager from './pages/admin/QuestionsManager'
 import UseCasesManager from './pages/admin/UseCasesManager'
 import DecisionMatrixManager from './pages/admin/DecisionMatrixManager'
+import SubmissionsManager from './pages/admin/SubmissionsManager'
+import SubmissionDetail from './pages/admin/SubmissionDetail'
+import ScoringSimulator from './pages/admin/ScoringSimulator'
+import RegressionReplay from './pages/admin/RegressionReplay'
+import MatrixHealth from './pages/admin/MatrixHealth'
+import AdminUsers from './pages/admin/AdminUsers'
 
 function App() {
   return (
@@ -22,6 +29,7 @@ function App() {
           <Route path="/" element={<CustomerDetails />} />
           <Route path="/questionnaire/:submissionId" element={<Questionnaire />} />
           <Route path="/thank-you/:submissionId" element={<ThankYou />} />
+          <Route path="/resume/:token" element={<ResumeQuestionnaire />} />
 
           {/* Admin auth */}
           <Route path="/admin/login" element={<AdminLogin />} />
@@ -36,11 +44,17 @@ function App() {
             }
           >
             <Route index element={<Dashboard />} />
-            <Route path="questionnaires" element={<QuestionnairesManager />} />
-            <Route path="questionnaires/:questionnaireId/sections" element={<SectionsManager />} />
-            <Route path="questionnaires/:questionnaireId/sections/:sectionId/questions" element={<QuestionsManager />} />
-            <Route path="use-cases" element={<UseCasesManager />} />
-            <Route path="decision-matrix" element={<DecisionMatrixManager />} />
+            <Route path="questionnaires" element={<ProtectedRoute area="content"><QuestionnairesManager /></ProtectedRoute>} />
+            <Route path="questionnaires/:questionnaireId/sections" element={<ProtectedRoute area="content"><SectionsManager /></ProtectedRoute>} />
+            <Route path="questionnaires/:questionnaireId/sections/:sectionId/questions" element={<ProtectedRoute area="content"><QuestionsManager /></ProtectedRoute>} />
+            <Route path="use-cases" element={<ProtectedRoute area="content"><UseCasesManager /></ProtectedRoute>} />
+            <Route path="decision-matrix" element={<ProtectedRoute area="matrix"><DecisionMatrixManager /></ProtectedRoute>} />
+            <Route path="submissions" element={<ProtectedRoute area="submissions"><SubmissionsManager /></ProtectedRoute>} />
+            <Route path="submissions/:submissionId" element={<ProtectedRoute area="submissions"><SubmissionDetail /></ProtectedRoute>} />
+            <Route path="simulator" element={<ProtectedRoute area="matrix"><ScoringSimulator /></ProtectedRoute>} />
+            <Route path="replay" element={<ProtectedRoute area="matrix"><RegressionReplay /></ProtectedRoute>} />
+            <Route path="matrix-health" element={<ProtectedRoute area="matrix"><MatrixHealth /></ProtectedRoute>} />
+            <Route path="users" element={<ProtectedRoute area="users"><AdminUsers /></ProtectedRoute>} />
           </Route>
         </Routes>
       </BrowserRouter>
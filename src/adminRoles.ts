@@ -0,0 +1,34 @@
+// Admin roles stored in admin_users (20260221000000_add_admin_roles.sql).
+// The database policies are what actually protect the data; the areas below
+// only keep the admin UI from offering pages a role cannot use.
+export type AdminRole = 'owner' | 'content_editor' | 'matrix_editor' | 'sales_viewer'
+
+export const ADMIN_ROLES: AdminRole[] = ['owner', 'content_editor', 'matrix_editor', 'sales_viewer']
+
+export const roleLabels: Record<AdminRole, string> = {
+  owner: 'Owner',
+  content_editor: 'Content editor',
+  matrix_editor: 'Matrix editor',
+  sales_viewer: 'Sales viewer',
+}
+
+export const roleDescriptions: Record<AdminRole, string> = {
+  owner: 'Everything, including inviting admins and assigning roles',
+  content_editor: 'Questionnaires, questions, use cases and the decision matrix',
+  matrix_editor: 'The decision matrix, simulator and regression replay',
+  sales_viewer: 'Submissions and their recommendations, read-only',
+}
+
+export type AdminArea = 'dashboard' | 'content' | 'matrix' | 'submissions' | 'users'
+
+const areaRoles: Record<AdminArea, AdminRole[]> = {
+  dashboard: ADMIN_ROLES,
+  content: ['owner', 'content_editor'],
+  matrix: ['owner', 'content_editor', 'matrix_editor'],
+  submissions: ADMIN_ROLES,
+  users: ['owner'],
+}
+
+export function canAccess(role: AdminRole | null, area: AdminArea): boolean {
+  return role !== null && areaRoles[area].includes(role)
+}
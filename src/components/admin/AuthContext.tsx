@@ -2,10 +2,13 @@ import { createContext, useContext, useEffect, useState } from 'react'
 import type { ReactNode } from 'react'
 import type { User, Session } from '@supabase/supabase-js'
 import { supabase } from '../../supabaseClient'
+import type { AdminRole } from '../../adminRoles'
 
 interface AuthContextType {
   user: User | null
   session: Session | null
+  // null for signed-in users without an admin_users row
+  role: AdminRole | null
   loading: boolean
   signOut: () => Promise<void>
 }
@@ -13,26 +16,43 @@ interface AuthContextType {
 const AuthContext = createContext<AuthContextType>({
   user: null,
   session: null,
+  role: null,
   loading: true,
   signOut: async () => {},
 })
 
+async function fetchRole(session: Session | null): Promise<AdminRole | null> {
+  if (!session) return null
+  const { data } = await supabase
+    .from('admin_users')
+    .select('role')
+    .eq('user_id', session.user.id)
+    .maybeSingle()
+  return data?.role ?? null
+}
+
 export function AuthProvider({ children }: { children: ReactNode }) {
   const [user, setUser] = useState<User | null>(null)
   const [session, setSession] = useState<Session | null>(null)
+  const [role, setRole] = useState<AdminRole | null>(null)
   const [loading, setLoading] = useState(true)
 
   useEffect(() => {
-    supabase.auth.getSession().then(({ data: { session } }) => {
+    const applySession = async (session: Session | null) => {
+      const nextRole = await fetchRole(session)
       setSession(session)
       setUser(session?.user ?? null)
+      setRole(nextRole)
       setLoading(false)
-    })
+    }
+
+    supabase.auth.getSession().then(({ data: { session } }) => applySession(session))
 
+    // Queries inside the callback would deadlock the auth client, so the
+    // role is fetched after it returns
     const { data: { subscription } } = supabase.auth.onAuthStateChange(
       (_event, session) => {
-        setSession(session)
-        setUser(session?.user ?? null)
+        setTimeout(() => applySession(session), 0)
       }
     )
 
@@ -44,7 +64,7 @@ export function AuthProvider({ children }: { children: ReactNode }) {
   }
 
   return (
-    <AuthContext.Provider value={{ user, session, loading, signOut }}>
+    <AuthContext.Provider value={{ user, session, role, loading, signOut }}>
       {children}
     </AuthContext.Provider>
   )
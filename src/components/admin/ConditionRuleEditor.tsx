@@ -0,0 +1,209 @@
+import { useState } from 'react'
+import { isConditionRule, type ConditionRule } from '../../../supabase/functions/_shared/conditions.ts'
+
+interface RuleCandidate {
+  id: string
+  label: string
+  options: string[]
+}
+
+interface ConditionRuleEditorProps {
+  value: ConditionRule | null
+  candidates: RuleCandidate[]
+  onChange: (rule: ConditionRule | null, error: string | null) => void
+}
+
+// One row of the builder: "<question> is / is not <answers>"
+interface Clause {
+  question_id: string
+  negate: boolean
+  any_of: string[]
+}
+
+type Combinator = 'all' | 'any'
+
+function toClause(rule: ConditionRule): Clause | null {
+  if ('question_id' in rule) return { question_id: rule.question_id, negate: false, any_of: rule.any_of }
+  if ('not' in rule && 'question_id' in rule.not) {
+    return { question_id: rule.not.question_id, negate: true, any_of: rule.not.any_of }
+  }
+  return null
+}
+
+// Splits a rule into builder rows, or returns null when it is nested deeper
+// than the builder can show
+function toClauses(rule: ConditionRule | null): { combinator: Combinator | null; clauses: Clause[] } | null {
+  if (!rule) return { combinator: null, clauses: [] }
+  const single = toClause(rule)
+  if (single) return { combinator: null, clauses: [single] }
+  const combinator: Combinator | null = 'all' in rule ? 'all' : 'any' in rule ? 'any' : null
+  if (!combinator) return null
+  const children = 'all' in rule ? rule.all : 'any' in rule ? rule.any : []
+  const clauses: Clause[] = []
+  for (const child of children) {
+    const clause = toClause(child)
+    if (!clause) return null
+    clauses.push(clause)
+  }
+  return { combinator, clauses }
+}
+
+function fromClauses(combinator: Combinator, clauses: Clause[]): ConditionRule | null {
+  const rules: ConditionRule[] = clauses.map((c) => {
+    const leaf = { question_id: c.question_id, any_of: c.any_of }
+    return c.negate ? { not: leaf } : leaf
+  })
+  if (rules.length === 0) return null
+  if (rules.length === 1) return rules[0]
+  return combinator === 'all' ? { all: rules } : { any: rules }
+}
+
+export default function ConditionRuleEditor({ value, candidates, onChange }: ConditionRuleEditorProps) {
+  const parsed = toClauses(value)
+  const [combinator, setCombinator] = useState<Combinator>(parsed?.combinator ?? 'all')
+  const [jsonText, setJsonText] = useState<string | null>(parsed ? null : JSON.stringify(value, null, 2))
+  const [jsonError, setJsonError] = useState<string | null>(null)
+
+  const candidatesById = new Map(candidates.map((c) => [c.id, c]))
+
+  if (jsonText !== null || !parsed) {
+    const handleJsonChange = (text: string) => {
+      setJsonText(text)
+      if (!text.trim()) {
+        setJsonError(null)
+        onChange(null, null)
+        return
+      }
+      let rule: unknown
+      try {
+        rule = JSON.parse(text)
+      } catch {
+        rule = undefined
+      }
+      const error = isConditionRule(rule) ? null : 'Not a valid rule expression'
+      setJsonError(error)
+      onChange(isConditionRule(rule) ? rule : value, error)
+    }
+
+    return (
+      <div>
+        <textarea
+          value={jsonText ?? ''}
+          onChange={(e) => handleJsonChange(e.target.value)}
+          rows={6}
+          placeholder='{"any": [{"question_id": "...", "any_of": ["Yes"]}]}'
+          className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 font-mono text-xs"
+        />
+        {jsonError && <p className="text-xs text-red-600 mt-1">{jsonError}</p>}
+        {!jsonError && toClauses(value) && (
+          <button type="button" onClick={() => setJsonText(null)} className="text-xs text-blue-600 hover:underline mt-1">
+            Use builder
+          </button>
+        )}
+      </div>
+    )
+  }
+
+  const clauses = parsed.clauses
+  const update = (next: Clause[], nextCombinator = combinator) => {
+    const incomplete = next.some((c) => !c.question_id || c.any_of.length === 0)
+    onChange(
+      fromClauses(nextCombinator, next),
+      incomplete ? 'Pick a question and at least one answer for every condition' : null
+    )
+  }
+  const updateClause = (idx: number, patch: Partial<Clause>) => {
+    update(clauses.map((c, i) => (i === idx ? { ...c, ...patch } : c)))
+  }
+
+  return (
+    <div className="space-y-2">
+      {clauses.length > 1 && (
+        <select
+          value={combinator}
+          onChange={(e) => {
+            const next = e.target.value as Combinator
+            setCombinator(next)
+            update(clauses, next)
+          }}
+          className="px-2 py-1 border border-gray-300 rounded-lg text-xs"
+        >
+          <option value="all">Match ALL of the following</option>
+          <option value="any">Match ANY of the following</option>
+        </select>
+      )}
+
+      {clauses.map((clause, idx) => {
+        const question = candidatesById.get(clause.question_id)
+        return (
+          <div key={idx} className="border border-gray-200 rounded-lg p-2 space-y-2">
+            <div className="flex gap-2">
+              <select
+                value={clause.question_id}
+                onChange={(e) => updateClause(idx, { question_id: e.target.value, any_of: [] })}
+                className="flex-1 min-w-0 px-2 py-1.5 border border-gray-300 rounded-lg text-xs"
+              >
+                <option value="">Select a question...</option>
+                {clause.question_id && !question && (
+                  <option value={clause.question_id}>Unavailable question</option>
+                )}
+                {candidates.map((c) => (
+                  <option key={c.id} value={c.id}>{c.label}</option>
+                ))}
+              </select>
+              <select
+                value={clause.negate ? 'not' : 'is'}
+                onChange={(e) => updateClause(idx, { negate: e.target.value === 'not' })}
+                className="w-20 px-2 py-1.5 border border-gray-300 rounded-lg text-xs"
+              >
+                <option value="is">is</option>
+                <option value="not">is not</option>
+              </select>
+              <button
+                type="button"
+                onClick={() => update(clauses.filter((_, i) => i !== idx))}
+                className="text-red-600 hover:underline text-xs"
+              >
+                Remove
+              </button>
+            </div>
+            {question && (
+              <div className="flex flex-wrap gap-x-3 gap-y-1">
+                {[...new Set([...question.options, ...clause.any_of])].map((opt) => (
+                  <label key={opt} className="flex items-center gap-1 text-xs text-gray-700">
+                    <input
+                      type="checkbox"
+                      checked={clause.any_of.includes(opt)}
+                      onChange={(e) => updateClause(idx, {
+                        any_of: e.target.checked ? [...clause.any_of, opt] : clause.any_of.filter((a) => a !== opt),
+                      })}
+                      className="h-3.5 w-3.5 text-blue-600 rounded"
+                    />
+                    <span className={question.options.includes(opt) ? '' : 'text-red-600'}>{opt}</span>
+                  </label>
+                ))}
+              </div>
+            )}
+          </div>
+        )
+      })}
+
+      <div className="flex gap-3">
+        <button
+          type="button"
+          onClick={() => update([...clauses, { question_id: '', negate: false, any_of: [] }])}
+          className="text-xs text-blue-600 hover:underline"
+        >
+          + Add condition
+        </button>
+        <button
+          type="button"
+          onClick={() => setJsonText(value ? JSON.stringify(value, null, 2) : '')}
+          className="text-xs text-gray-500 hover:underline"
+        >
+          Edit as JSON
+        </button>
+      </div>
+    </div>
+  )
+}
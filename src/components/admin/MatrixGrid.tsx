@@ -0,0 +1,259 @@
+import { useState } from 'react'
+import { DEFAULT_WEIGHT } from '../../../supabase/functions/_shared/scoring.ts'
+import { optionLabels, type StoredOptions } from '../../../supabase/functions/_shared/options.ts'
+
+interface GridEntry {
+  id: string
+  question_id: string
+  use_case_id: string
+  triggering_answer: string
+  weight: number
+}
+
+interface GridQuestion {
+  id: string
+  question_text: string
+  question_type: 'MultipleChoice' | 'YesNo' | 'Checkbox'
+  options: StoredOptions
+  section: { title: string } | null
+}
+
+interface GridUseCase {
+  id: string
+  title: string
+  category: string
+  sub_category: string
+}
+
+export interface MatrixChanges {
+  inserts: Omit<GridEntry, 'id'>[]
+  updates: GridEntry[]
+  deletes: string[]
+}
+
+interface MatrixGridProps {
+  entries: GridEntry[]
+  questions: GridQuestion[]
+  useCases: GridUseCase[]
+  // Resolves to an error message, or null once the changes are applied
+  onSave: (changes: MatrixChanges) => Promise<string | null>
+  saveLabel?: string
+  readOnly?: boolean
+}
+
+// Cell key -> weight; a missing key means no mapping
+type Cells = Map<string, number>
+
+function cellKey(answer: string, useCaseId: string) {
+  return `${answer}\u0000${useCaseId}`
+}
+
+function cellsFor(entries: GridEntry[], questionId: string): Cells {
+  return new Map(
+    entries
+      .filter((e) => e.question_id === questionId)
+      .map((e) => [cellKey(e.triggering_answer, e.use_case_id), e.weight])
+  )
+}
+
+interface QuestionGridProps extends MatrixGridProps {
+  question: GridQuestion
+}
+
+function QuestionGrid({ question, entries, useCases, onSave, saveLabel = 'Save Changes', readOnly = false }: QuestionGridProps) {
+  const [cells, setCells] = useState<Cells>(() => cellsFor(entries, question.id))
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const saved = cellsFor(entries, question.id)
+  const existing = entries.filter((e) => e.question_id === question.id)
+
+  // Mapped answers no longer in the options still get a row so they can be cleared
+  const options = optionLabels(question)
+  const answers = [...new Set([...options, ...existing.map((e) => e.triggering_answer)])]
+
+  const toInsert: { answer: string; useCaseId: string; weight: number }[] = []
+  for (const [key, weight] of cells) {
+    if (!saved.has(key)) {
+      const [answer, useCaseId] = key.split('\u0000')
+      toInsert.push({ answer, useCaseId, weight })
+    }
+  }
+  const toUpdate = existing.filter((e) => {
+    const weight = cells.get(cellKey(e.triggering_answer, e.use_case_id))
+    return weight !== undefined && weight !== e.weight
+  })
+  const toDelete = existing.filter((e) => !cells.has(cellKey(e.triggering_answer, e.use_case_id)))
+  const changeCount = toInsert.length + toUpdate.length + toDelete.length
+
+  const toggle = (answer: string, useCaseId: string) => {
+    const key = cellKey(answer, useCaseId)
+    setCells((prev) => {
+      const next = new Map(prev)
+      if (next.has(key)) next.delete(key)
+      else next.set(key, saved.get(key) ?? DEFAULT_WEIGHT)
+      return next
+    })
+  }
+
+  const setWeight = (answer: string, useCaseId: string, value: string) => {
+    const weight = parseInt(value)
+    if (Number.isNaN(weight) || weight < 0) return
+    setCells((prev) => new Map(prev).set(cellKey(answer, useCaseId), weight))
+  }
+
+  const handleSave = async () => {
+    setSaving(true)
+    setError(null)
+    const message = await onSave({
+      inserts: toInsert.map((c) => ({
+        question_id: question.id,
+        use_case_id: c.useCaseId,
+        triggering_answer: c.answer,
+        weight: c.weight,
+      })),
+      updates: toUpdate.map((e) => ({
+        ...e,
+        weight: cells.get(cellKey(e.triggering_answer, e.use_case_id)) ?? e.weight,
+      })),
+      deletes: toDelete.map((e) => e.id),
+    })
+    setError(message)
+    setSaving(false)
+  }
+
+  return (
+    <div>
+      <div className="bg-white rounded-xl shadow-sm overflow-x-auto">
+        <table className="text-xs">
+          <thead className="bg-gray-50 border-b">
+            <tr>
+              <th className="sticky left-0 bg-gray-50 text-left px-4 py-3 font-medium text-gray-600 min-w-48">Answer</th>
+              {useCases.map((uc) => (
+                <th key={uc.id} className="px-2 py-3 font-medium text-gray-600 text-left align-bottom min-w-28" title={`${uc.category} / ${uc.sub_category}`}>
+                  {uc.title}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody className="divide-y">
+            {answers.map((answer) => (
+              <tr key={answer} className="hover:bg-gray-50">
+                <td className={`sticky left-0 bg-white px-4 py-2 font-medium ${options.includes(answer) ? 'text-gray-900' : 'text-red-600'}`}>
+                  {answer}
+                </td>
+                {useCases.map((uc) => {
+                  const weight = cells.get(cellKey(answer, uc.id))
+                  return (
+                    <td key={uc.id} className={`px-2 py-2 ${weight !== undefined ? 'bg-green-50' : ''}`}>
+                      <div className="flex items-center gap-1">
+                        <input
+                          type="checkbox"
+                          checked={weight !== undefined}
+                          disabled={readOnly}
+                          onChange={() => toggle(answer, uc.id)}
+                          className="h-3.5 w-3.5 text-blue-600 rounded"
+                        />
+                        {weight !== undefined && (
+                          <input
+                            type="number"
+                            min={0}
+                            value={weight}
+                            disabled={readOnly}
+                            onChange={(e) => setWeight(answer, uc.id, e.target.value)}
+                            className="w-12 px-1 py-0.5 border border-gray-200 rounded text-xs text-right"
+                          />
+                        )}
+                      </div>
+                    </td>
+                  )
+                })}
+              </tr>
+            ))}
+            {answers.length === 0 && (
+              <tr><td colSpan={useCases.length + 1} className="px-4 py-8 text-center text-gray-400">This question has no answer options</td></tr>
+            )}
+          </tbody>
+        </table>
+      </div>
+
+      {!readOnly && (
+        <div className="flex items-center justify-end gap-3 mt-4">
+          {error && <p className="text-sm text-red-600">{error}</p>}
+          <span className="text-sm text-gray-500">
+            {changeCount === 0 ? 'No unsaved changes' : `${toInsert.length} added, ${toUpdate.length} reweighted, ${toDelete.length} removed`}
+          </span>
+          <button
+            onClick={() => setCells(cellsFor(entries, question.id))}
+            disabled={changeCount === 0 || saving}
+            className="px-4 py-2 border border-gray-300 rounded-lg text-sm hover:bg-gray-50 disabled:opacity-50"
+          >
+            Discard
+          </button>
+          <button
+            onClick={handleSave}
+            disabled={changeCount === 0 || saving}
+            className="px-4 py-2 bg-blue-600 text-white rounded-lg text-sm hover:bg-blue-700 disabled:opacity-50"
+          >
+            {saving ? 'Saving...' : saveLabel}
+          </button>
+        </div>
+      )}
+    </div>
+  )
+}
+
+export default function MatrixGrid(props: MatrixGridProps) {
+  const { questions, useCases } = props
+  const [questionId, setQuestionId] = useState('')
+  const [category, setCategory] = useState('')
+  const [subCategory, setSubCategory] = useState('')
+
+  const question = questions.find((q) => q.id === questionId)
+  const categories = [...new Set(useCases.map((uc) => uc.category))].sort()
+  const subCategories = [...new Set(
+    useCases.filter((uc) => !category || uc.category === category).map((uc) => uc.sub_category)
+  )].sort()
+  const columns = useCases.filter((uc) =>
+    (!category || uc.category === category) && (!subCategory || uc.sub_category === subCategory)
+  )
+
+  return (
+    <div>
+      <div className="flex flex-wrap items-end gap-3 mb-4">
+        <select
+          value={questionId}
+          onChange={(e) => setQuestionId(e.target.value)}
+          className="w-full max-w-md px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 text-sm bg-white"
+        >
+          <option value="">Select a question...</option>
+          {questions.map((q) => (
+            <option key={q.id} value={q.id}>[{q.section?.title}] {q.question_text}</option>
+          ))}
+        </select>
+        <select
+          value={category}
+          onChange={(e) => { setCategory(e.target.value); setSubCategory('') }}
+          className="w-48 px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 text-sm bg-white"
+        >
+          <option value="">All categories</option>
+          {categories.map((c) => <option key={c} value={c}>{c}</option>)}
+        </select>
+        <select
+          value={subCategory}
+          onChange={(e) => setSubCategory(e.target.value)}
+          className="w-48 px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 text-sm bg-white"
+        >
+          <option value="">All sub-categories</option>
+          {subCategories.map((c) => <option key={c} value={c}>{c}</option>)}
+        </select>
+      </div>
+
+      {question ? (
+        <QuestionGrid key={question.id} {...props} useCases={columns} question={question} />
+      ) : (
+        <p className="text-gray-400 text-sm">Pick a question to edit its mappings.</p>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,174 @@
+import { useState } from 'react'
+import { supabase } from '../../supabaseClient'
+import { downloadSpreadsheet, readSpreadsheet } from '../../files'
+import Modal from './Modal'
+import { recordsFromRows } from '../../../supabase/functions/_shared/csv.ts'
+import {
+  MATRIX_COLUMNS,
+  MATRIX_HEADER_ALIASES,
+  resolveMatrixRows,
+  type ImportMatrixEntry,
+  type ImportQuestion,
+  type ImportUseCase,
+  type MatrixImportStatus,
+} from '../../../supabase/functions/_shared/matrixImport.ts'
+
+interface MatrixImportProps {
+  questionnaireId: string
+  questions: ImportQuestion[]
+  useCases: ImportUseCase[]
+  entries: ImportMatrixEntry[]
+  onClose: () => void
+  onImported: () => void
+}
+
+const statusStyles: Record<MatrixImportStatus, { label: string; badge: string }> = {
+  new: { label: 'New', badge: 'bg-green-100 text-green-700' },
+  reweighted: { label: 'Reweighted', badge: 'bg-blue-100 text-blue-700' },
+  unchanged: { label: 'Unchanged', badge: 'bg-gray-100 text-gray-500' },
+  error: { label: 'Unmatched', badge: 'bg-red-100 text-red-700' },
+}
+
+export default function MatrixImport({ questionnaireId, questions, useCases, entries, onClose, onImported }: MatrixImportProps) {
+  const [fileName, setFileName] = useState('')
+  const [result, setResult] = useState<ReturnType<typeof resolveMatrixRows> | null>(null)
+  const [shown, setShown] = useState<MatrixImportStatus | ''>('')
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return
+    setFileName(file.name)
+    setError(null)
+    setResult(null)
+    try {
+      const { headers, records } = recordsFromRows(await readSpreadsheet(file), MATRIX_HEADER_ALIASES)
+      setResult(resolveMatrixRows(headers, records, questions, useCases, entries))
+    } catch (err) {
+      setError(`Could not read ${file.name}: ${(err as Error).message}`)
+    }
+  }
+
+  const rows = result?.rows ?? []
+  const counts = Object.fromEntries(
+    (Object.keys(statusStyles) as MatrixImportStatus[]).map((s) => [s, rows.filter((r) => r.status === s).length])
+  ) as Record<MatrixImportStatus, number>
+  const visible = rows.filter((r) => (shown ? r.status === shown : r.status !== 'unchanged'))
+  const toApply = rows.filter((r) => r.status === 'new' || r.status === 'reweighted')
+
+  const downloadUnmatched = () => {
+    const base = fileName.replace(/\.[^.]+$/, '') || 'matrix'
+    downloadSpreadsheet(`${base}-unmatched`, 'csv', [
+      ['row', ...MATRIX_COLUMNS, 'problem'],
+      ...rows
+        .filter((r) => r.status === 'error')
+        .map((r) => [r.line, r.question, r.answer, r.useCase, r.weight, r.errors.join('; ')]),
+    ])
+  }
+
+  const handleApply = async () => {
+    setSaving(true)
+    setError(null)
+    const { error } = await supabase.rpc('import_decision_matrix', {
+      p_questionnaire_id: questionnaireId,
+      p_rows: toApply.map((r) => r.entry),
+    })
+    setSaving(false)
+    if (error) {
+      setError(error.message)
+      return
+    }
+    onImported()
+  }
+
+  return (
+    <Modal open onClose={onClose} title="Import Mappings">
+      <div className="space-y-4">
+        <p className="text-sm text-gray-600">
+          Upload a CSV (or Excel) file with <code>question</code>, <code>answer</code>, <code>use_case</code> and an optional{' '}
+          <code>weight</code> column. Questions and use cases can be given by number or by their exact text.
+        </p>
+        <input
+          type="file"
+          accept=".csv,.xlsx,text/csv,application/vnd.openxmlformats-officedocument.spreadsheetml.sheet"
+          onChange={(e) => handleFile(e.target.files?.[0])}
+          className="block w-full text-sm text-gray-600 file:mr-3 file:px-3 file:py-1.5 file:rounded-lg file:border-0 file:bg-gray-100 file:text-sm hover:file:bg-gray-200"
+        />
+
+        {result && result.missingColumns.length > 0 && (
+          <p className="px-3 py-2 rounded-lg bg-red-50 border border-red-200 text-sm text-red-700">
+            {fileName} is missing the required column{result.missingColumns.length === 1 ? '' : 's'}: {result.missingColumns.join(', ')}
+          </p>
+        )}
+
+        {result && (
+          <>
+            <div className="flex flex-wrap items-center gap-2">
+              {(Object.keys(statusStyles) as MatrixImportStatus[]).map((s) => (
+                <button
+                  key={s}
+                  onClick={() => setShown(shown === s ? '' : s)}
+                  className={`px-2 py-0.5 rounded-full text-xs font-medium ${statusStyles[s].badge} ${shown === s ? 'ring-2 ring-blue-400' : ''}`}
+                >
+                  {statusStyles[s].label}: {counts[s]}
+                </button>
+              ))}
+              {counts.error > 0 && (
+                <button onClick={downloadUnmatched} className="ml-auto text-blue-600 hover:underline text-xs">
+                  Download unmatched rows
+                </button>
+              )}
+            </div>
+            <div className="max-h-72 overflow-y-auto border rounded-lg">
+              <table className="w-full text-xs">
+                <thead className="bg-gray-50 border-b sticky top-0">
+                  <tr>
+                    <th className="text-left px-2 py-2 font-medium text-gray-600 w-10">Row</th>
+                    <th className="text-left px-2 py-2 font-medium text-gray-600">Mapping</th>
+                    <th className="text-right px-2 py-2 font-medium text-gray-600 w-16">Weight</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y">
+                  {visible.map((r) => (
+                    <tr key={r.line} className="align-top">
+                      <td className="px-2 py-1.5 text-gray-400">{r.line}</td>
+                      <td className="px-2 py-1.5">
+                        <span className={`inline-block mr-1 px-1.5 rounded text-[10px] font-medium ${statusStyles[r.status].badge}`}>
+                          {statusStyles[r.status].label}
+                        </span>
+                        {r.question} &rarr; <span className="font-medium">{r.answer}</span> &rarr; {r.useCase}
+                        {r.errors.length > 0 && <p className="text-red-600">{r.errors.join('; ')}</p>}
+                      </td>
+                      <td className="px-2 py-1.5 text-right">
+                        {r.status === 'reweighted' && <span className="text-gray-400 line-through mr-1">{r.previousWeight}</span>}
+                        {r.weight ?? '—'}
+                      </td>
+                    </tr>
+                  ))}
+                  {visible.length === 0 && (
+                    <tr><td colSpan={3} className="px-2 py-6 text-center text-gray-400">Nothing to show</td></tr>
+                  )}
+                </tbody>
+              </table>
+            </div>
+          </>
+        )}
+
+        {error && <p className="text-sm text-red-600">{error}</p>}
+        <div className="flex justify-end gap-2 pt-2">
+          <button onClick={onClose} className="px-4 py-2 border border-gray-300 rounded-lg text-sm hover:bg-gray-50">Cancel</button>
+          <button
+            onClick={handleApply}
+            disabled={toApply.length === 0 || saving}
+            className="px-4 py-2 bg-blue-600 text-white rounded-lg text-sm hover:bg-blue-700 disabled:opacity-50"
+          >
+            {saving ? 'Importing...' : `Apply ${toApply.length} Mapping${toApply.length === 1 ? '' : 's'}`}
+          </button>
+        </div>
+        {counts.error > 0 && toApply.length > 0 && (
+          <p className="text-xs text-gray-500 text-right">Unmatched rows are skipped.</p>
+        )}
+      </div>
+    </Modal>
+  )
+}
@@ -1,9 +1,10 @@
 import { Navigate } from 'react-router-dom'
 import type { ReactNode } from 'react'
 import { useAuth } from './AuthContext'
+import { canAccess, type AdminArea } from '../../adminRoles'
 
-export default function ProtectedRoute({ children }: { children: ReactNode }) {
-  const { user, loading } = useAuth()
+export default function ProtectedRoute({ children, area = 'dashboard' }: { children: ReactNode; area?: AdminArea }) {
+  const { user, role, loading, signOut } = useAuth()
 
   if (loading) {
     return (
@@ -17,5 +18,28 @@ export default function ProtectedRoute({ children }: { children: ReactNode }) {
     return <Navigate to="/admin/login" replace />
   }
 
+  // Signed in, but never given a role by an owner
+  if (!role) {
+    return (
+      <div className="min-h-screen bg-gray-100 flex items-center justify-center p-4">
+        <div className="bg-white rounded-xl shadow-lg p-6 max-w-sm text-center">
+          <p className="text-gray-900 font-medium">No admin access</p>
+          <p className="text-sm text-gray-500 mt-1">{user.email} has not been given an admin role. Ask an owner to invite you.</p>
+          <button onClick={signOut} className="mt-4 px-4 py-2 border border-gray-300 rounded-lg text-sm hover:bg-gray-50">
+            Sign Out
+          </button>
+        </div>
+      </div>
+    )
+  }
+
+  if (!canAccess(role, area)) {
+    return (
+      <div className="px-4 py-3 rounded-lg bg-amber-50 border border-amber-200 text-sm text-amber-800">
+        Your role does not give you access to this page.
+      </div>
+    )
+  }
+
   return <>{children}</>
 }
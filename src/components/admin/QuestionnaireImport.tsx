@@ -0,0 +1,136 @@
+import { useEffect, useState } from 'react'
+import { parse } from 'yaml'
+import { supabase } from '../../supabaseClient'
+import Modal from './Modal'
+import {
+  resolveDocument,
+  type SourceUseCase,
+} from '../../../supabase/functions/_shared/questionnaireDocument.ts'
+
+interface QuestionnaireImportProps {
+  onClose: () => void
+  onImported: () => void
+}
+
+function readDocument(text: string, catalogue: SourceUseCase[]) {
+  let doc: unknown
+  try {
+    // YAML is a superset of JSON, so one parser covers both formats
+    doc = parse(text)
+  } catch (err) {
+    return { plan: null, errors: [`Could not parse the document: ${(err as Error).message}`] }
+  }
+  return resolveDocument(doc, catalogue)
+}
+
+export default function QuestionnaireImport({ onClose, onImported }: QuestionnaireImportProps) {
+  const [catalogue, setCatalogue] = useState<SourceUseCase[] | null>(null)
+  const [text, setText] = useState('')
+  const [version, setVersion] = useState('')
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    const fetchUseCases = async () => {
+      const { data } = await supabase
+        .from('use_cases')
+        .select('id, title, category, sub_category, engagement_category, use_case_number')
+      setCatalogue(data ?? [])
+    }
+    fetchUseCases()
+  }, [])
+
+  const result = catalogue && text.trim() ? readDocument(text, catalogue) : null
+  const plan = result?.plan ?? null
+  const targetVersion = version.trim() || plan?.version || ''
+  const questions = plan?.sections.flatMap((s) => s.questions) ?? []
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return
+    setText(await file.text())
+    setVersion('')
+    setError(null)
+  }
+
+  const handleImport = async () => {
+    if (!plan) return
+    setSaving(true)
+    setError(null)
+    const { error } = await supabase.rpc('import_questionnaire', {
+      p_plan: { ...plan, version: targetVersion },
+    })
+    setSaving(false)
+    if (error) {
+      setError(error.code === '23505' ? `Version ${targetVersion} already exists` : error.message)
+      return
+    }
+    onImported()
+  }
+
+  return (
+    <Modal open onClose={onClose} title="Import Questionnaire">
+      <div className="space-y-4">
+        <p className="text-sm text-gray-600">
+          Creates a new draft version from an exported JSON or YAML document. Use cases are matched to existing ones by
+          number, then by title.
+        </p>
+        <input
+          type="file"
+          accept=".json,.yaml,.yml,application/json,text/yaml"
+          onChange={(e) => handleFile(e.target.files?.[0])}
+          className="block w-full text-sm text-gray-600 file:mr-3 file:px-3 file:py-1.5 file:rounded-lg file:border-0 file:bg-gray-100 file:text-sm hover:file:bg-gray-200"
+        />
+        <textarea
+          value={text}
+          onChange={(e) => setText(e.target.value)}
+          rows={8}
+          placeholder="...or paste the document here"
+          className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 font-mono text-xs"
+        />
+
+        {!catalogue && <p className="text-sm text-gray-500">Loading use cases...</p>}
+
+        {result && result.errors.length > 0 && (
+          <div className="max-h-48 overflow-y-auto px-3 py-2 rounded-lg bg-red-50 border border-red-200">
+            <h4 className="text-sm font-medium text-red-700">
+              {result.errors.length} problem{result.errors.length === 1 ? '' : 's'} found
+            </h4>
+            <ul className="mt-1 space-y-0.5 list-disc list-inside">
+              {result.errors.map((e, i) => <li key={i} className="text-xs text-red-700">{e}</li>)}
+            </ul>
+          </div>
+        )}
+
+        {plan && (
+          <>
+            <p className="px-3 py-2 rounded-lg bg-green-50 text-sm text-green-700">
+              {plan.title}: {plan.sections.length} sections, {questions.length} questions,{' '}
+              {questions.reduce((n, q) => n + q.mappings.length, 0)} matrix mappings
+            </p>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Version</label>
+              <input
+                value={version}
+                onChange={(e) => setVersion(e.target.value)}
+                placeholder={plan.version}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+              />
+            </div>
+          </>
+        )}
+
+        {error && <p className="text-sm text-red-600">{error}</p>}
+        <div className="flex justify-end gap-2 pt-2">
+          <button onClick={onClose} className="px-4 py-2 border border-gray-300 rounded-lg text-sm hover:bg-gray-50">Cancel</button>
+          <button
+            onClick={handleImport}
+            disabled={!plan || !targetVersion || saving}
+            className="px-4 py-2 bg-blue-600 text-white rounded-lg text-sm hover:bg-blue-700 disabled:opacity-50"
+          >
+            {saving ? 'Importing...' : 'Import as Draft'}
+          </button>
+        </div>
+      </div>
+    </Modal>
+  )
+}
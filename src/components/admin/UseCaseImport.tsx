@@ -0,0 +1,157 @@
+import { useState } from 'react'
+import { supabase } from '../../supabaseClient'
+import { readSpreadsheet } from '../../files'
+import Modal from './Modal'
+import { recordsFromRows } from '../../../supabase/functions/_shared/csv.ts'
+import {
+  diffCatalogue,
+  USE_CASE_HEADER_ALIASES,
+  type CatalogueRow,
+  type CatalogueRowStatus,
+  type CatalogueUseCase,
+} from '../../../supabase/functions/_shared/useCaseCatalogue.ts'
+
+interface UseCaseImportProps {
+  useCases: CatalogueUseCase[]
+  onClose: () => void
+  onImported: () => void
+}
+
+const statusStyles: Record<CatalogueRowStatus, { label: string; badge: string }> = {
+  new: { label: 'New', badge: 'bg-green-100 text-green-700' },
+  changed: { label: 'Changed', badge: 'bg-blue-100 text-blue-700' },
+  unchanged: { label: 'Unchanged', badge: 'bg-gray-100 text-gray-500' },
+  error: { label: 'Errors', badge: 'bg-red-100 text-red-700' },
+}
+
+export default function UseCaseImport({ useCases, onClose, onImported }: UseCaseImportProps) {
+  const [fileName, setFileName] = useState('')
+  const [diff, setDiff] = useState<ReturnType<typeof diffCatalogue> | null>(null)
+  const [shown, setShown] = useState<CatalogueRowStatus | ''>('')
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return
+    setFileName(file.name)
+    setError(null)
+    setDiff(null)
+    try {
+      const { headers, records } = recordsFromRows(await readSpreadsheet(file), USE_CASE_HEADER_ALIASES)
+      setDiff(diffCatalogue(headers, records, useCases))
+    } catch (err) {
+      setError(`Could not read ${file.name}: ${(err as Error).message}`)
+    }
+  }
+
+  const rows = diff?.rows ?? []
+  const counts = Object.fromEntries(
+    (Object.keys(statusStyles) as CatalogueRowStatus[]).map((s) => [s, rows.filter((r) => r.status === s).length])
+  ) as Record<CatalogueRowStatus, number>
+  const visible = rows.filter((r) => (shown ? r.status === shown : r.status !== 'unchanged'))
+
+  const handleApply = async () => {
+    setSaving(true)
+    setError(null)
+    // One transaction, so a failing row leaves the catalogue as it was
+    const { error } = await supabase.rpc('import_use_cases', {
+      p_inserts: rows.filter((r) => r.status === 'new').map((r) => r.fields),
+      p_updates: rows.filter((r) => r.status === 'changed').map((r) => ({ id: r.existingId, ...r.fields })),
+    })
+    setSaving(false)
+    if (error) {
+      setError(error.message)
+      return
+    }
+    onImported()
+  }
+
+  const detail = (row: CatalogueRow) => {
+    if (row.errors.length > 0) return <span className="text-red-600">{row.errors.join('; ')}</span>
+    if (row.status === 'changed') return <span className="text-gray-500">{row.changed.join(', ')}</span>
+    return null
+  }
+
+  return (
+    <Modal open onClose={onClose} title="Import Use Cases">
+      <div className="space-y-4">
+        <p className="text-sm text-gray-600">
+          Upload a CSV or Excel file with a header row. Rows are matched to existing use cases by use case number, then by
+          title. Columns left out of the file are not changed.
+        </p>
+        <input
+          type="file"
+          accept=".csv,.xlsx,text/csv,application/vnd.openxmlformats-officedocument.spreadsheetml.sheet"
+          onChange={(e) => handleFile(e.target.files?.[0])}
+          className="block w-full text-sm text-gray-600 file:mr-3 file:px-3 file:py-1.5 file:rounded-lg file:border-0 file:bg-gray-100 file:text-sm hover:file:bg-gray-200"
+        />
+
+        {diff && diff.missingColumns.length > 0 && (
+          <p className="px-3 py-2 rounded-lg bg-red-50 border border-red-200 text-sm text-red-700">
+            {fileName} is missing the required column{diff.missingColumns.length === 1 ? '' : 's'}: {diff.missingColumns.join(', ')}
+          </p>
+        )}
+
+        {diff && (
+          <>
+            <div className="flex flex-wrap gap-2">
+              {(Object.keys(statusStyles) as CatalogueRowStatus[]).map((s) => (
+                <button
+                  key={s}
+                  onClick={() => setShown(shown === s ? '' : s)}
+                  className={`px-2 py-0.5 rounded-full text-xs font-medium ${statusStyles[s].badge} ${shown === s ? 'ring-2 ring-blue-400' : ''}`}
+                >
+                  {statusStyles[s].label}: {counts[s]}
+                </button>
+              ))}
+            </div>
+            <div className="max-h-72 overflow-y-auto border rounded-lg">
+              <table className="w-full text-xs">
+                <thead className="bg-gray-50 border-b sticky top-0">
+                  <tr>
+                    <th className="text-left px-2 py-2 font-medium text-gray-600 w-10">Row</th>
+                    <th className="text-left px-2 py-2 font-medium text-gray-600">Use Case</th>
+                    <th className="text-left px-2 py-2 font-medium text-gray-600">Details</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y">
+                  {visible.map((r) => (
+                    <tr key={r.line}>
+                      <td className="px-2 py-1.5 text-gray-400">{r.line}</td>
+                      <td className="px-2 py-1.5">
+                        <span className={`inline-block mr-1 px-1.5 rounded text-[10px] font-medium ${statusStyles[r.status].badge}`}>
+                          {statusStyles[r.status].label}
+                        </span>
+                        {r.fields.use_case_number != null && <span className="text-gray-400">#{r.fields.use_case_number} </span>}
+                        {r.title || <span className="text-gray-400">(no title)</span>}
+                      </td>
+                      <td className="px-2 py-1.5">{detail(r)}</td>
+                    </tr>
+                  ))}
+                  {visible.length === 0 && (
+                    <tr><td colSpan={3} className="px-2 py-6 text-center text-gray-400">Nothing to show</td></tr>
+                  )}
+                </tbody>
+              </table>
+            </div>
+          </>
+        )}
+
+        {error && <p className="text-sm text-red-600">{error}</p>}
+        <div className="flex justify-end gap-2 pt-2">
+          <button onClick={onClose} className="px-4 py-2 border border-gray-300 rounded-lg text-sm hover:bg-gray-50">Cancel</button>
+          <button
+            onClick={handleApply}
+            disabled={!diff || counts.error > 0 || counts.new + counts.changed === 0 || saving}
+            className="px-4 py-2 bg-blue-600 text-white rounded-lg text-sm hover:bg-blue-700 disabled:opacity-50"
+          >
+            {saving ? 'Importing...' : diff ? `Add ${counts.new}, Update ${counts.changed}` : 'Import'}
+          </button>
+        </div>
+        {counts.error > 0 && (
+          <p className="text-xs text-gray-500 text-right">Fix the rows with errors and upload the file again.</p>
+        )}
+      </div>
+    </Modal>
+  )
+}
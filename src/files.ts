@@ -0,0 +1,58 @@
+import { parseCsv, toCsv } from '../supabase/functions/_shared/csv.ts'
+
+export type SpreadsheetFormat = 'csv' | 'xlsx'
+
+const XLSX_TYPE = 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet'
+
+export function downloadFile(fileName: string, content: BlobPart, type: string) {
+  const url = URL.createObjectURL(new Blob([content], { type }))
+  const link = document.createElement('a')
+  link.href = url
+  link.download = fileName
+  link.click()
+  URL.revokeObjectURL(url)
+}
+
+// exceljs is large, so it is only loaded when a workbook is actually read or written
+async function loadExcel() {
+  return (await import('exceljs')).default
+}
+
+/** Rows of the first sheet of an .xlsx file, or of a CSV file, as text. */
+export async function readSpreadsheet(file: File): Promise<string[][]> {
+  if (!/\.xlsx$/i.test(file.name)) return parseCsv(await file.text())
+
+  const ExcelJS = await loadExcel()
+  const workbook = new ExcelJS.Workbook()
+  await workbook.xlsx.load(await file.arrayBuffer())
+  const sheet = workbook.worksheets[0]
+  if (!sheet) return []
+
+  // eachRow() skips empty rows; keep them as parseCsv() does, so row numbers still match the sheet
+  const rows: string[][] = []
+  sheet.eachRow((row, rowNumber) => {
+    const cells: string[] = []
+    for (let c = 1; c <= sheet.columnCount; c++) cells.push(row.getCell(c).text ?? '')
+    rows[rowNumber - 1] = cells
+  })
+  return Array.from(rows, (row) => row ?? [])
+}
+
+export async function downloadSpreadsheet(
+  baseName: string,
+  format: SpreadsheetFormat,
+  rows: (string | number | null)[][],
+) {
+  if (format === 'csv') {
+    downloadFile(`${baseName}.csv`, toCsv(rows), 'text/csv')
+    return
+  }
+
+  const ExcelJS = await loadExcel()
+  const workbook = new ExcelJS.Workbook()
+  const sheet = workbook.addWorksheet(baseName.slice(0, 31))
+  sheet.addRows(rows)
+  sheet.getRow(1).font = { bold: true }
+  sheet.views = [{ state: 'frozen', ySplit: 1 }]
+  downloadFile(`${baseName}.xlsx`, await workbook.xlsx.writeBuffer(), XLSX_TYPE)
+}
@@ -1,6 +1,7 @@
 import { useState } from 'react'
 import { useNavigate } from 'react-router-dom'
 import { supabase } from '../supabaseClient'
+import { createSubmissionToken, rememberSubmissionToken, SUBMISSION_TOKEN_HEADER } from '../submissionToken'
 
 interface FormData {
   full_name: string
@@ -69,11 +70,14 @@ export default function CustomerDetails() {
         throw new Error('No active questionnaire found. Please contact the administrator.')
       }
 
-      // Insert the submission
+      // Insert the submission. The token is generated here so this browser
+      // can read the new row back and keep answering it.
+      const token = createSubmissionToken()
       const { data: submission, error: sError } = await supabase
         .from('submissions')
         .insert({
           questionnaire_id: questionnaire.id,
+          access_token: token,
           full_name: formData.full_name.trim(),
           email: formData.email.trim(),
           company_name: formData.company_name.trim(),
@@ -81,11 +85,13 @@ export default function CustomerDetails() {
           country: formData.country.trim() || null,
         })
         .select('id')
+        .setHeader(SUBMISSION_TOKEN_HEADER, token)
         .single()
 
       if (sError || !submission) {
         throw new Error('Failed to create submission. Please try again.')
       }
+      rememberSubmissionToken(submission.id, token)
 
       navigate(`/questionnaire/${submission.id}`)
     } catch (err) {
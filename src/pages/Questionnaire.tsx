@@ -1,17 +1,21 @@
 import { useEffect, useState, useCallback, useMemo } from 'react'
 import { useParams, useNavigate } from 'react-router-dom'
 import { supabase } from '../supabaseClient'
+import { SUBMISSION_TOKEN_HEADER, submissionToken } from '../submissionToken'
 import ProgressBar from '../components/ProgressBar'
 import MultipleChoiceQuestion from '../components/questions/MultipleChoiceQuestion'
 import YesNoQuestion from '../components/questions/YesNoQuestion'
 import CheckboxQuestion from '../components/questions/CheckboxQuestion'
+import { createVisibility, type ConditionRule } from '../../supabase/functions/_shared/conditions.ts'
+import { optionLabels, type StoredOptions } from '../../supabase/functions/_shared/options.ts'
 
 interface Question {
   id: string
   question_text: string
   question_type: 'MultipleChoice' | 'YesNo' | 'Checkbox'
-  options: string[] | null
+  options: StoredOptions
   order: number
+  condition_rule: ConditionRule | null
   condition_question_id: string | null
   condition_answer: string | null
 }
@@ -29,6 +33,10 @@ interface FlatQuestion {
   sectionTitle: string
 }
 
+function hasAnswer(answer: string | string[] | null | undefined): answer is string | string[] {
+  return answer != null && (Array.isArray(answer) ? answer.length > 0 : answer !== '')
+}
+
 export default function Questionnaire() {
   const { submissionId } = useParams<{ submissionId: string }>()
   const navigate = useNavigate()
@@ -39,23 +47,34 @@ export default function Questionnaire() {
   const [loading, setLoading] = useState(true)
   const [saving, setSaving] = useState(false)
   const [error, setError] = useState<string | null>(null)
+  const [sendingLink, setSendingLink] = useState(false)
+  const [linkError, setLinkError] = useState<string | null>(null)
+  const [linkSentTo, setLinkSentTo] = useState<string | null>(null)
+  const token = submissionId ? submissionToken(submissionId) : ''
 
   useEffect(() => {
     async function fetchQuestionnaire() {
       try {
         const { data: submission, error: subErr } = await supabase
           .from('submissions')
-          .select('questionnaire_id')
+          .select('questionnaire_id, status')
           .eq('id', submissionId)
+          .setHeader(SUBMISSION_TOKEN_HEADER, token)
           .single()
 
         if (subErr || !submission) {
           throw new Error('Submission not found')
         }
 
+        // Finalized submissions can no longer be edited
+        if (submission.status !== 'draft') {
+          navigate(`/thank-you/${submissionId}`, { replace: true })
+          return
+        }
+
         const { data: sections, error: secErr } = await supabase
           .from('sections')
-          .select('id, title, description, order, questions(id, question_text, question_type, options, order, condition_question_id, condition_answer)')
+          .select('id, title, description, order, questions(id, question_text, question_type, options, order, condition_rule, condition_question_id, condition_answer)')
           .eq('questionnaire_id', submission.questionnaire_id)
           .order('order', { ascending: true })
 
@@ -83,14 +102,20 @@ export default function Questionnaire() {
           .from('responses')
           .select('question_id, answer')
           .eq('submission_id', submissionId)
+          .setHeader(SUBMISSION_TOKEN_HEADER, token)
 
-        if (existingResponses) {
-          const existing: Record<string, string | string[]> = {}
-          for (const r of existingResponses) {
-            existing[r.question_id] = r.answer
-          }
-          setAnswers(existing)
+        const existing: Record<string, string | string[]> = {}
+        for (const r of existingResponses ?? []) {
+          existing[r.question_id] = r.answer
         }
+        setAnswers(existing)
+
+        // Pick up at the first visible question still to answer, so a
+        // resumed submission does not start again from question 1
+        const isVisible = createVisibility(flat.map((fq) => fq.question), existing)
+        const visible = flat.filter((fq) => isVisible(fq.question.id))
+        const firstUnanswered = visible.findIndex((fq) => !hasAnswer(existing[fq.question.id]))
+        setCurrentIndex(firstUnanswered === -1 ? Math.max(visible.length - 1, 0) : firstUnanswered)
       } catch (err) {
         setError(err instanceof Error ? err.message : 'Failed to load questionnaire')
       } finally {
@@ -99,18 +124,12 @@ export default function Questionnaire() {
     }
 
     fetchQuestionnaire()
-  }, [submissionId])
+  }, [submissionId, token, navigate])
 
   // Filter questions based on conditional logic
   const visibleQuestions = useMemo(() => {
-    return flatQuestions.filter(fq => {
-      const q = fq.question
-      if (!q.condition_question_id || !q.condition_answer) return true
-      const condAnswer = answers[q.condition_question_id]
-      if (condAnswer === undefined || condAnswer === null) return false
-      if (Array.isArray(condAnswer)) return condAnswer.includes(q.condition_answer)
-      return condAnswer === q.condition_answer
-    })
+    const isVisible = createVisibility(flatQuestions.map((fq) => fq.question), answers)
+    return flatQuestions.filter((fq) => isVisible(fq.question.id))
   }, [flatQuestions, answers])
 
   const currentQ = visibleQuestions[currentIndex]
@@ -122,21 +141,25 @@ export default function Questionnaire() {
   }, [currentQ])
 
   const saveResponse = async (questionId: string, answer: string | string[]) => {
-    await supabase
-      .from('responses')
-      .delete()
-      .eq('submission_id', submissionId!)
-      .eq('question_id', questionId)
-
-    const { error } = await supabase
-      .from('responses')
-      .insert({
-        submission_id: submissionId,
-        question_id: questionId,
-        answer: answer,
+    const { data: removed, error } = await supabase
+      .rpc('save_response', {
+        p_submission_id: submissionId,
+        p_question_id: questionId,
+        p_answer: answer,
       })
+      .setHeader(SUBMISSION_TOKEN_HEADER, token)
 
     if (error) throw new Error('Failed to save response')
+
+    // The database also dropped the answers to questions this one now hides
+    const hidden: string[] = removed ?? []
+    if (hidden.length > 0) {
+      setAnswers((prev) => {
+        const next = { ...prev }
+        for (const id of hidden) delete next[id]
+        return next
+      })
+    }
   }
 
   const handleNext = async () => {
@@ -149,6 +172,14 @@ export default function Questionnaire() {
       if (currentIndex < visibleQuestions.length - 1) {
         setCurrentIndex((prev) => prev + 1)
       } else {
+        const { error: finalizeErr } = await supabase.rpc('finalize_submission', {
+          p_submission_id: submissionId,
+        }).setHeader(SUBMISSION_TOKEN_HEADER, token)
+
+        if (finalizeErr) {
+          setError(finalizeErr.message)
+          return
+        }
         navigate(`/thank-you/${submissionId}`)
       }
     } catch {
@@ -158,6 +189,37 @@ export default function Questionnaire() {
     }
   }
 
+  // Saves the current answer, if any, and emails a link back to this point
+  const handleContinueLater = async () => {
+    setSendingLink(true)
+    setLinkError(null)
+    try {
+      if (currentQ && hasAnswer(currentAnswer)) {
+        await saveResponse(currentQ.question.id, currentAnswer)
+      }
+
+      const { data, error: fnErr } = await supabase.functions.invoke('send-resume-link', {
+        body: { submission_id: submissionId },
+        headers: { [SUBMISSION_TOKEN_HEADER]: token },
+      })
+
+      if (fnErr || !data?.email) {
+        // Show why, e.g. that a link was sent only minutes ago
+        let message = 'We could not email you a link. Please try again.'
+        if (fnErr && 'context' in fnErr && fnErr.context instanceof Response) {
+          message = (await fnErr.context.json().catch(() => null))?.error ?? message
+        }
+        setLinkError(message)
+        return
+      }
+      setLinkSentTo(data.email)
+    } catch {
+      setLinkError('We could not email you a link. Please try again.')
+    } finally {
+      setSendingLink(false)
+    }
+  }
+
   const handlePrevious = () => {
     if (currentIndex > 0) {
       setCurrentIndex((prev) => prev - 1)
@@ -206,9 +268,28 @@ export default function Questionnaire() {
     )
   }
 
-  const isAnswered =
-    currentAnswer !== null &&
-    (Array.isArray(currentAnswer) ? currentAnswer.length > 0 : currentAnswer !== '')
+  if (linkSentTo) {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-blue-50 to-indigo-100 flex items-center justify-center p-4">
+        <div className="bg-white rounded-2xl shadow-lg p-8 max-w-md text-center">
+          <h2 className="text-xl font-semibold text-gray-900">Your answers are saved</h2>
+          <p className="mt-2 text-gray-600">
+            We've emailed a link to <span className="font-medium">{linkSentTo}</span>. Use it to continue
+            where you left off, on this or any other device. You can close this page now.
+          </p>
+          <button
+            type="button"
+            onClick={() => setLinkSentTo(null)}
+            className="mt-6 px-6 py-2.5 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors"
+          >
+            Keep answering
+          </button>
+        </div>
+      </div>
+    )
+  }
+
+  const isAnswered = hasAnswer(currentAnswer)
 
   const isLastQuestion = currentIndex === visibleQuestions.length - 1
 
@@ -226,7 +307,7 @@ export default function Questionnaire() {
             {currentQ.question.question_type === 'MultipleChoice' && (
               <MultipleChoiceQuestion
                 question={currentQ.question.question_text}
-                options={currentQ.question.options ?? []}
+                options={optionLabels(currentQ.question)}
                 value={typeof currentAnswer === 'string' ? currentAnswer : null}
                 onChange={(v) => handleAnswerChange(v)}
               />
@@ -243,7 +324,7 @@ export default function Questionnaire() {
             {currentQ.question.question_type === 'Checkbox' && (
               <CheckboxQuestion
                 question={currentQ.question.question_text}
-                options={currentQ.question.options ?? []}
+                options={optionLabels(currentQ.question)}
                 value={Array.isArray(currentAnswer) ? currentAnswer : []}
                 onChange={(v) => handleAnswerChange(v)}
               />
@@ -273,6 +354,18 @@ export default function Questionnaire() {
                   : 'Next'}
             </button>
           </div>
+
+          <div className="mt-4 text-center">
+            <button
+              type="button"
+              onClick={handleContinueLater}
+              disabled={sendingLink || saving}
+              className="text-sm text-gray-500 hover:text-blue-600 disabled:opacity-50 transition-colors"
+            >
+              {sendingLink ? 'Sending link...' : 'Save and continue later'}
+            </button>
+            {linkError && <p className="mt-1 text-sm text-red-600">{linkError}</p>}
+          </div>
         </div>
       </div>
     </div>
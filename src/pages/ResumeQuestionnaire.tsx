@@ -0,0 +1,56 @@
+import { useEffect, useState } from 'react'
+import { useParams, useNavigate, Link } from 'react-router-dom'
+import { supabase } from '../supabaseClient'
+import { rememberSubmissionToken } from '../submissionToken'
+
+// Landing page of the emailed "continue later" link. Trades the signed token
+// for the submission's access token so this browser can carry on answering.
+export default function ResumeQuestionnaire() {
+  const { token } = useParams<{ token: string }>()
+  const navigate = useNavigate()
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    async function resume() {
+      const { data, error: fnErr } = await supabase.functions.invoke('resume-submission', {
+        body: { token },
+      })
+
+      if (fnErr || !data?.submission_id) {
+        setError('This link is invalid or has expired.')
+        return
+      }
+
+      rememberSubmissionToken(data.submission_id, data.access_token)
+      // The questionnaire sends finished submissions on to their results
+      navigate(`/questionnaire/${data.submission_id}`, { replace: true })
+    }
+
+    resume()
+  }, [token, navigate])
+
+  if (error) {
+    return (
+      <div className="min-h-screen bg-gray-50 flex items-center justify-center">
+        <div className="bg-white rounded-2xl shadow-lg p-8 max-w-md text-center">
+          <p className="text-red-600 font-medium">{error}</p>
+          <Link
+            to="/"
+            className="inline-block mt-4 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700"
+          >
+            Start a new assessment
+          </Link>
+        </div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50 flex items-center justify-center">
+      <div className="text-center">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600 mx-auto" />
+        <p className="mt-4 text-gray-600">Restoring your answers...</p>
+      </div>
+    </div>
+  )
+}
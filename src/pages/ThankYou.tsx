@@ -1,8 +1,13 @@
 import { useEffect, useState, useMemo } from 'react'
 import { useParams, Link } from 'react-router-dom'
 import { supabase } from '../supabaseClient'
+import { SUBMISSION_TOKEN_HEADER, submissionToken } from '../submissionToken'
+import {
+  contributionsByQuestion,
+  type ScoredUseCase,
+} from '../../supabase/functions/_shared/scoring.ts'
 
-interface UseCase {
+interface UseCaseRecord {
   id: string
   title: string
   category: string
@@ -13,15 +18,22 @@ interface UseCase {
   why_it_matters: string | null
   how_its_delivered: string | null
   use_case_number: number | null
-  score: number
 }
 
+type UseCase = ScoredUseCase<UseCaseRecord>
+
 interface CapturedResponse {
   sectionTitle: string
   questionText: string
   answer: string | string[]
 }
 
+interface ResponseRow {
+  question_id: string
+  answer: string | string[]
+  questions: { question_text: string; sections: { title: string } | null } | null
+}
+
 interface Phase {
   key: string
   label: string
@@ -63,10 +75,43 @@ function RelevanceBadge({ score, maxScore }: { score: number; maxScore: number }
   )
 }
 
+function BecauseYouSaid({ useCase, questionTexts }: { useCase: UseCase; questionTexts: Record<string, string> }) {
+  const [open, setOpen] = useState(false)
+  const reasons = contributionsByQuestion(useCase.contributions)
+  if (reasons.length === 0) return null
+  return (
+    <div className="px-6 pb-4 -mt-2">
+      <button
+        onClick={() => setOpen(!open)}
+        className="text-xs font-medium text-blue-700 hover:text-blue-900 flex items-center gap-1"
+      >
+        Because you said...
+        <svg className={`w-3.5 h-3.5 transition-transform ${open ? 'rotate-180' : ''}`} fill="none" stroke="currentColor" viewBox="0 0 24 24">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 9l-7 7-7-7" />
+        </svg>
+      </button>
+      {open && (
+        <ul className="mt-2 space-y-1.5 border-l-2 border-blue-100 pl-3">
+          {reasons.map((r) => (
+            <li key={r.question_id} className="text-sm flex items-start justify-between gap-3">
+              <span className="text-gray-600">
+                {questionTexts[r.question_id] ?? 'A question you answered'}{' '}
+                <span className="text-gray-900 font-medium">&ldquo;{r.answers.join(', ')}&rdquo;</span>
+              </span>
+              <span className="text-xs text-gray-500 flex-shrink-0 mt-0.5">+{r.weight}</span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  )
+}
+
 export default function ThankYou() {
   const { submissionId } = useParams<{ submissionId: string }>()
   const [allUseCases, setAllUseCases] = useState<UseCase[]>([])
   const [capturedResponses, setCapturedResponses] = useState<CapturedResponse[]>([])
+  const [questionTexts, setQuestionTexts] = useState<Record<string, string>>({})
   const [loading, setLoading] = useState(true)
   const [error, setError] = useState<string | null>(null)
   const [expandedUc, setExpandedUc] = useState<string | null>(null)
@@ -101,13 +146,54 @@ export default function ThankYou() {
 
   useEffect(() => {
     async function loadResults() {
+      const token = submissionToken(submissionId!)
       try {
-        await clientSideProcessing()
+        const [{ data: responses, error: respErr }, { data: result }] = await Promise.all([
+          supabase
+            .from('responses')
+            .select('question_id, answer, questions(question_text, sections(title))')
+            .eq('submission_id', submissionId)
+            .setHeader(SUBMISSION_TOKEN_HEADER, token),
+          supabase
+            .from('submission_results')
+            .select('recommended_use_cases')
+            .eq('submission_id', submissionId)
+            .setHeader(SUBMISSION_TOKEN_HEADER, token)
+            .maybeSingle(),
+        ])
+
+        if (respErr || !responses) {
+          throw new Error('Failed to fetch responses')
+        }
 
-        // Fire-and-forget: invoke edge function for email
-        supabase.functions.invoke('process-submission', {
+        // Build captured responses list
+        const rows = responses as unknown as ResponseRow[]
+        const captured: CapturedResponse[] = rows.map((r) => ({
+          sectionTitle: r.questions?.sections?.title || 'Unknown Section',
+          questionText: r.questions?.question_text || 'Unknown Question',
+          answer: r.answer,
+        }))
+        setCapturedResponses(captured)
+        setQuestionTexts(Object.fromEntries(
+          rows.flatMap((r) => (r.questions ? [[r.question_id, r.questions.question_text]] : []))
+        ))
+
+        if (result) {
+          setAllUseCases(result.recommended_use_cases)
+          return
+        }
+
+        // Not scored yet: the edge function scores the submission, stores the
+        // results snapshot and emails the team
+        const { data, error: fnErr } = await supabase.functions.invoke('process-submission', {
           body: { submission_id: submissionId },
-        }).catch(() => {})
+          headers: { [SUBMISSION_TOKEN_HEADER]: token },
+        })
+
+        if (fnErr || !data?.recommended_use_cases) {
+          throw new Error('Failed to process results')
+        }
+        setAllUseCases(data.recommended_use_cases)
       } catch (err) {
         setError(err instanceof Error ? err.message : 'Failed to process results')
       } finally {
@@ -115,83 +201,6 @@ export default function ThankYou() {
       }
     }
 
-    async function clientSideProcessing() {
-      // Get all responses with question text
-      const { data: responses, error: respErr } = await supabase
-        .from('responses')
-        .select('question_id, answer, questions(question_text, sections(title))')
-        .eq('submission_id', submissionId)
-
-      if (respErr || !responses) {
-        throw new Error('Failed to fetch responses')
-      }
-
-      // Build captured responses list
-      // eslint-disable-next-line @typescript-eslint/no-explicit-any
-      const captured: CapturedResponse[] = responses.map((r: any) => ({
-        sectionTitle: r.questions?.sections?.title || 'Unknown Section',
-        questionText: r.questions?.question_text || 'Unknown Question',
-        answer: r.answer,
-      }))
-      setCapturedResponses(captured)
-
-      // Score use cases via decision matrix WITH WEIGHTS
-      const useCaseScores: Record<string, number> = {}
-
-      for (const response of responses) {
-        const answerValue = response.answer
-        const answersToCheck: string[] = Array.isArray(answerValue)
-          ? answerValue
-          : [answerValue]
-
-        for (const answer of answersToCheck) {
-          const { data: matches } = await supabase
-            .from('decision_matrix')
-            .select('use_case_id, weight')
-            .eq('question_id', response.question_id)
-            .eq('triggering_answer', answer)
-
-          if (matches) {
-            for (const match of matches) {
-              const weight = (match as { use_case_id: string; weight: number }).weight || 1
-              useCaseScores[match.use_case_id] =
-                (useCaseScores[match.use_case_id] || 0) + weight
-            }
-          }
-        }
-      }
-
-      // Filter by minimum score threshold and sort
-      const MIN_SCORE = 3
-      const sortedEntries = Object.entries(useCaseScores)
-        .filter(([, score]) => score >= MIN_SCORE)
-        .sort(([, a], [, b]) => b - a)
-
-      const sortedIds = sortedEntries.map(([id]) => id)
-      const scoreMap = Object.fromEntries(sortedEntries)
-
-      if (sortedIds.length === 0) {
-        setAllUseCases([])
-        return
-      }
-
-      const { data: matchedUseCases } = await supabase
-        .from('use_cases')
-        .select('*')
-        .in('id', sortedIds)
-
-      if (matchedUseCases) {
-        const ordered: UseCase[] = sortedIds
-          .map((id) => {
-            const uc = matchedUseCases.find((u) => u.id === id)
-            if (!uc) return undefined
-            return { ...uc, score: scoreMap[id] || 0 }
-          })
-          .filter((uc): uc is UseCase => uc !== undefined)
-        setAllUseCases(ordered)
-      }
-    }
-
     loadResults()
   }, [submissionId])
 
@@ -343,6 +352,8 @@ export default function ThankYou() {
                                     </div>
                                   </button>
 
+                                  <BecauseYouSaid useCase={uc} questionTexts={questionTexts} />
+
                                   {isExpanded && (uc.why_it_matters || uc.whats_included || uc.key_deliverables || uc.how_its_delivered) && (
                                     <div className="px-6 pb-5 space-y-3">
                                       {uc.why_it_matters && (
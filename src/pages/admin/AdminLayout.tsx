@@ -1,15 +1,21 @@
 import { NavLink, Outlet } from 'react-router-dom'
 import { useAuth } from '../../components/admin/AuthContext'
+import { canAccess, roleLabels, type AdminArea } from '../../adminRoles'
 
-const navItems = [
-  { to: '/admin', label: 'Dashboard', end: true },
-  { to: '/admin/questionnaires', label: 'Questionnaires' },
-  { to: '/admin/use-cases', label: 'Use Cases' },
-  { to: '/admin/decision-matrix', label: 'Decision Matrix' },
+const navItems: { to: string; label: string; area: AdminArea; end?: boolean }[] = [
+  { to: '/admin', label: 'Dashboard', area: 'dashboard', end: true },
+  { to: '/admin/questionnaires', label: 'Questionnaires', area: 'content' },
+  { to: '/admin/use-cases', label: 'Use Cases', area: 'content' },
+  { to: '/admin/decision-matrix', label: 'Decision Matrix', area: 'matrix' },
+  { to: '/admin/matrix-health', label: 'Matrix Health', area: 'matrix' },
+  { to: '/admin/simulator', label: 'Simulator', area: 'matrix' },
+  { to: '/admin/replay', label: 'Regression Replay', area: 'matrix' },
+  { to: '/admin/submissions', label: 'Submissions', area: 'submissions' },
+  { to: '/admin/users', label: 'Users', area: 'users' },
 ]
 
 export default function AdminLayout() {
-  const { user, signOut } = useAuth()
+  const { user, role, signOut } = useAuth()
 
   return (
     <div className="min-h-screen bg-gray-100 flex">
@@ -18,9 +24,10 @@ export default function AdminLayout() {
         <div className="p-4 border-b border-gray-800">
           <h1 className="text-lg font-bold">SAP BTP Admin</h1>
           <p className="text-xs text-gray-400 mt-1 truncate">{user?.email}</p>
+          {role && <p className="text-xs text-gray-500">{roleLabels[role]}</p>}
         </div>
         <nav className="flex-1 p-3 space-y-1">
-          {navItems.map((item) => (
+          {navItems.filter((item) => canAccess(role, item.area)).map((item) => (
             <NavLink
               key={item.to}
               to={item.to}
@@ -0,0 +1,193 @@
+import { useEffect, useState } from 'react'
+import { supabase } from '../../supabaseClient'
+import Modal from '../../components/admin/Modal'
+import { useAuth } from '../../components/admin/AuthContext'
+import { ADMIN_ROLES, roleDescriptions, roleLabels, type AdminRole } from '../../adminRoles'
+
+interface AdminUser {
+  user_id: string
+  email: string
+  role: AdminRole
+  created_at: string
+}
+
+const emptyInvite = { email: '', role: 'content_editor' as AdminRole }
+
+export default function AdminUsers() {
+  const { user } = useAuth()
+  const [items, setItems] = useState<AdminUser[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [inviteOpen, setInviteOpen] = useState(false)
+  const [invite, setInvite] = useState(emptyInvite)
+  const [inviteError, setInviteError] = useState<string | null>(null)
+  const [saving, setSaving] = useState(false)
+  const [reloadKey, setReloadKey] = useState(0)
+
+  useEffect(() => {
+    async function fetchAll() {
+      const { data, error } = await supabase
+        .from('admin_users')
+        .select('user_id, email, role, created_at')
+        .order('created_at')
+      if (error) setError(error.message)
+      setItems(data ?? [])
+      setLoading(false)
+    }
+    fetchAll()
+  }, [reloadKey])
+
+  const reload = () => setReloadKey((k) => k + 1)
+
+  const changeRole = async (target: AdminUser, role: AdminRole) => {
+    setError(null)
+    const { error } = await supabase.from('admin_users').update({ role }).eq('user_id', target.user_id)
+    if (error) setError(error.message)
+    reload()
+  }
+
+  // Removes the role only; the account stays but can no longer open the admin
+  const handleRemove = async (target: AdminUser) => {
+    if (!confirm(`Remove admin access for ${target.email}?`)) return
+    setError(null)
+    const { error } = await supabase.from('admin_users').delete().eq('user_id', target.user_id)
+    if (error) setError(error.message)
+    reload()
+  }
+
+  const openInvite = () => {
+    setInvite(emptyInvite)
+    setInviteError(null)
+    setInviteOpen(true)
+  }
+
+  const handleInvite = async () => {
+    setSaving(true)
+    setInviteError(null)
+    const { data, error } = await supabase.functions.invoke('invite-admin', {
+      body: { email: invite.email, role: invite.role, redirect_to: `${window.location.origin}/admin` },
+    })
+    setSaving(false)
+    // Keep the dialog open so a mistyped address can be corrected
+    if (error || data?.error) {
+      let message = data?.error ?? error?.message ?? 'Failed to send the invitation'
+      if (error && 'context' in error && error.context instanceof Response) {
+        message = (await error.context.json().catch(() => null))?.error ?? message
+      }
+      setInviteError(message)
+      return
+    }
+    setInviteOpen(false)
+    reload()
+  }
+
+  if (loading) return <div className="text-gray-500">Loading...</div>
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-6">
+        <h2 className="text-2xl font-bold text-gray-900">Users</h2>
+        <button onClick={openInvite} className="px-4 py-2 bg-blue-600 text-white text-sm font-medium rounded-lg hover:bg-blue-700">
+          + Invite User
+        </button>
+      </div>
+
+      {error && (
+        <div className="mb-4 px-4 py-3 rounded-lg bg-red-50 border border-red-200 text-sm text-red-700">{error}</div>
+      )}
+
+      <div className="bg-white rounded-xl shadow-sm overflow-hidden">
+        <table className="w-full text-sm">
+          <thead className="bg-gray-50 border-b">
+            <tr>
+              <th className="text-left px-4 py-3 font-medium text-gray-600">Email</th>
+              <th className="text-left px-4 py-3 font-medium text-gray-600 w-56">Role</th>
+              <th className="text-left px-4 py-3 font-medium text-gray-600 w-32">Added</th>
+              <th className="text-right px-4 py-3 font-medium text-gray-600 w-24">Actions</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y">
+            {items.map((u) => (
+              <tr key={u.user_id} className="hover:bg-gray-50">
+                <td className="px-4 py-3 text-gray-900">
+                  {u.email}
+                  {u.user_id === user?.id && <span className="ml-2 text-xs text-gray-400">(you)</span>}
+                </td>
+                <td className="px-4 py-3">
+                  <select
+                    value={u.role}
+                    onChange={(e) => changeRole(u, e.target.value as AdminRole)}
+                    title={roleDescriptions[u.role]}
+                    className="w-full px-2 py-1 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 text-sm bg-white"
+                  >
+                    {ADMIN_ROLES.map((r) => <option key={r} value={r}>{roleLabels[r]}</option>)}
+                  </select>
+                </td>
+                <td className="px-4 py-3 text-xs text-gray-500">{new Date(u.created_at).toLocaleDateString()}</td>
+                <td className="px-4 py-3 text-right">
+                  {u.user_id !== user?.id && (
+                    <button onClick={() => handleRemove(u)} className="text-red-600 hover:underline text-xs">Remove</button>
+                  )}
+                </td>
+              </tr>
+            ))}
+            {items.length === 0 && (
+              <tr><td colSpan={4} className="px-4 py-8 text-center text-gray-400">No admin users</td></tr>
+            )}
+          </tbody>
+        </table>
+      </div>
+
+      <div className="mt-6 bg-white rounded-xl shadow-sm p-4">
+        <h3 className="text-sm font-semibold text-gray-700 mb-2">Roles</h3>
+        <dl className="grid grid-cols-1 sm:grid-cols-2 gap-x-6 gap-y-1 text-xs">
+          {ADMIN_ROLES.map((r) => (
+            <div key={r}>
+              <dt className="inline font-medium text-gray-900">{roleLabels[r]}: </dt>
+              <dd className="inline text-gray-500">{roleDescriptions[r]}</dd>
+            </div>
+          ))}
+        </dl>
+      </div>
+
+      <Modal open={inviteOpen} onClose={() => setInviteOpen(false)} title="Invite User">
+        <div className="space-y-4">
+          <p className="text-sm text-gray-600">
+            Sends an invitation email. The new user signs in from the link and gets the role chosen here.
+          </p>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Email</label>
+            <input
+              type="email"
+              value={invite.email}
+              onChange={(e) => setInvite({ ...invite, email: e.target.value })}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Role</label>
+            <select
+              value={invite.role}
+              onChange={(e) => setInvite({ ...invite, role: e.target.value as AdminRole })}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 bg-white"
+            >
+              {ADMIN_ROLES.map((r) => <option key={r} value={r}>{roleLabels[r]}</option>)}
+            </select>
+            <p className="text-xs text-gray-400 mt-1">{roleDescriptions[invite.role]}</p>
+          </div>
+          {inviteError && <p className="text-sm text-red-600">{inviteError}</p>}
+          <div className="flex justify-end gap-2 pt-2">
+            <button onClick={() => setInviteOpen(false)} className="px-4 py-2 border border-gray-300 rounded-lg text-sm hover:bg-gray-50">Cancel</button>
+            <button
+              onClick={handleInvite}
+              disabled={!invite.email.trim() || saving}
+              className="px-4 py-2 bg-blue-600 text-white rounded-lg text-sm hover:bg-blue-700 disabled:opacity-50"
+            >
+              {saving ? 'Sending...' : 'Send Invitation'}
+            </button>
+          </div>
+        </div>
+      </Modal>
+    </div>
+  )
+}
@@ -1,6 +1,8 @@
 import { useEffect, useState } from 'react'
 import { Link } from 'react-router-dom'
 import { supabase } from '../../supabaseClient'
+import { useAuth } from '../../components/admin/AuthContext'
+import { canAccess } from '../../adminRoles'
 
 interface Stats {
   questionnaires: number
@@ -12,6 +14,7 @@ interface Stats {
 export default function Dashboard() {
   const [stats, setStats] = useState<Stats>({ questionnaires: 0, questions: 0, useCases: 0, submissions: 0 })
   const [loading, setLoading] = useState(true)
+  const { role } = useAuth()
 
   useEffect(() => {
     async function fetchStats() {
@@ -33,11 +36,11 @@ export default function Dashboard() {
   }, [])
 
   const cards = [
-    { label: 'Questionnaires', value: stats.questionnaires, to: '/admin/questionnaires', color: 'bg-blue-500' },
-    { label: 'Questions', value: stats.questions, to: '/admin/questionnaires', color: 'bg-indigo-500' },
-    { label: 'Use Cases', value: stats.useCases, to: '/admin/use-cases', color: 'bg-purple-500' },
-    { label: 'Submissions', value: stats.submissions, to: '#', color: 'bg-green-500' },
-  ]
+    { label: 'Questionnaires', value: stats.questionnaires, to: '/admin/questionnaires', area: 'content', color: 'bg-blue-500' },
+    { label: 'Questions', value: stats.questions, to: '/admin/questionnaires', area: 'content', color: 'bg-indigo-500' },
+    { label: 'Use Cases', value: stats.useCases, to: '/admin/use-cases', area: 'content', color: 'bg-purple-500' },
+    { label: 'Submissions', value: stats.submissions, to: '/admin/submissions', area: 'submissions', color: 'bg-green-500' },
+  ] as const
 
   return (
     <div>
@@ -49,7 +52,7 @@ export default function Dashboard() {
         </div>
       ) : (
         <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-4">
-          {cards.map((card) => (
+          {cards.filter((card) => canAccess(role, card.area)).map((card) => (
             <Link
               key={card.label}
               to={card.to}
@@ -1,61 +1,148 @@
-import { useEffect, useState } from 'react'
+import { useCallback, useEffect, useState } from 'react'
 import { supabase } from '../../supabaseClient'
 import Modal from '../../components/admin/Modal'
+import MatrixGrid, { type MatrixChanges } from '../../components/admin/MatrixGrid'
+import MatrixImport from '../../components/admin/MatrixImport'
+import { DEFAULT_WEIGHT } from '../../../supabase/functions/_shared/scoring.ts'
+import { optionLabels, type StoredOptions } from '../../../supabase/functions/_shared/options.ts'
 
 interface MatrixEntry {
   id: string
   question_id: string
   use_case_id: string
   triggering_answer: string
-  question: { question_text: string; options: string[] | null } | null
+  weight: number
+  question: { question_text: string; options: StoredOptions } | null
   use_case: { title: string } | null
 }
 
 interface QuestionOption {
   id: string
   question_text: string
-  options: string[] | null
-  section: { title: string } | null
+  question_type: 'MultipleChoice' | 'YesNo' | 'Checkbox'
+  options: StoredOptions
+  order: number
+  section: { title: string; order: number } | null
 }
 
 interface UseCaseOption {
   id: string
   title: string
+  category: string
+  sub_category: string
+  use_case_number: number | null
+}
+
+interface QuestionnaireOption {
+  id: string
+  title: string
+  version: string
+  status: 'draft' | 'review' | 'published' | 'archived'
+}
+
+type WeightSort = 'none' | 'desc' | 'asc'
+
+const questionTypes = ['MultipleChoice', 'YesNo', 'Checkbox'] as const
+
+// onSave resolves to whether the new weight was stored
+function WeightCell({ weight, disabled, onSave }: { weight: number; disabled: boolean; onSave: (weight: number) => Promise<boolean> }) {
+  const [value, setValue] = useState(String(weight))
+  const [saving, setSaving] = useState(false)
+
+  const commit = async () => {
+    const parsed = parseInt(value)
+    if (Number.isNaN(parsed) || parsed < 0) {
+      setValue(String(weight))
+      return
+    }
+    if (parsed === weight) return
+    setSaving(true)
+    if (!(await onSave(parsed))) setValue(String(weight))
+    setSaving(false)
+  }
+
+  return (
+    <input
+      type="number"
+      min={0}
+      value={value}
+      disabled={saving || disabled}
+      onChange={(e) => setValue(e.target.value)}
+      onBlur={commit}
+      onKeyDown={(e) => { if (e.key === 'Enter') e.currentTarget.blur() }}
+      className="w-16 px-2 py-1 border border-gray-200 rounded text-xs text-right focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:opacity-50"
+    />
+  )
 }
 
 export default function DecisionMatrixManager() {
+  const [questionnaires, setQuestionnaires] = useState<QuestionnaireOption[]>([])
+  const [questionnaireId, setQuestionnaireId] = useState('')
   const [entries, setEntries] = useState<MatrixEntry[]>([])
   const [questions, setQuestions] = useState<QuestionOption[]>([])
   const [useCases, setUseCases] = useState<UseCaseOption[]>([])
   const [loading, setLoading] = useState(true)
   const [modalOpen, setModalOpen] = useState(false)
   const [editing, setEditing] = useState<MatrixEntry | null>(null)
-  const [form, setForm] = useState({ question_id: '', use_case_id: '', triggering_answer: '' })
+  const [form, setForm] = useState({ question_id: '', use_case_id: '', triggering_answer: '', weight: DEFAULT_WEIGHT })
   const [saving, setSaving] = useState(false)
+  const [formError, setFormError] = useState<string | null>(null)
+  const [error, setError] = useState<string | null>(null)
   const [search, setSearch] = useState('')
+  const [view, setView] = useState<'list' | 'grid'>('list')
+  const [weightSort, setWeightSort] = useState<WeightSort>('none')
+  const [bulkOpen, setBulkOpen] = useState(false)
+  const [bulkForm, setBulkForm] = useState({ section: '', question_type: '', weight: DEFAULT_WEIGHT })
+  const [importOpen, setImportOpen] = useState(false)
 
-  const fetchAll = async () => {
+  useEffect(() => {
+    async function fetchQuestionnaires() {
+      const { data } = await supabase
+        .from('questionnaires')
+        .select('id, title, version, status')
+        .order('created_at', { ascending: false })
+      const items = data ?? []
+      // Open the version being worked on, falling back to the live one
+      const preferred = items.find((q) => q.status === 'draft') ?? items.find((q) => q.status === 'published') ?? items[0]
+      setQuestionnaires(items)
+      setQuestionnaireId(preferred?.id ?? '')
+      if (!preferred) setLoading(false)
+    }
+    fetchQuestionnaires()
+  }, [])
+
+  const fetchAll = useCallback(async () => {
+    if (!questionnaireId) return
     const [{ data: matrixData }, { data: qData }, { data: ucData }] = await Promise.all([
       supabase.from('decision_matrix')
-        .select('id, question_id, use_case_id, triggering_answer, question:questions(question_text, options), use_case:use_cases(title)')
+        .select('id, question_id, use_case_id, triggering_answer, weight, question:questions!inner(question_text, options, section:sections!inner(questionnaire_id)), use_case:use_cases(title)')
+        .eq('question.section.questionnaire_id', questionnaireId)
         .order('created_at', { ascending: false }),
-      supabase.from('questions').select('id, question_text, options, section:sections(title)').order('question_text'),
-      supabase.from('use_cases').select('id, title').order('title'),
+      supabase.from('questions')
+        .select('id, question_text, question_type, options, order, section:sections!inner(title, order, questionnaire_id)')
+        .eq('section.questionnaire_id', questionnaireId)
+        .order('question_text'),
+      supabase.from('use_cases').select('id, title, category, sub_category, use_case_number').order('title'),
     ])
     setEntries((matrixData as unknown as MatrixEntry[]) ?? [])
     setQuestions((qData as unknown as QuestionOption[]) ?? [])
     setUseCases(ucData ?? [])
     setLoading(false)
-  }
+  }, [questionnaireId])
 
-  useEffect(() => { fetchAll() }, [])
+  useEffect(() => { fetchAll() }, [fetchAll])
+
+  // Only draft versions can be edited; the database rejects changes to the rest
+  const selectedVersion = questionnaires.find((q) => q.id === questionnaireId)
+  const readOnly = selectedVersion?.status !== 'draft'
 
   const selectedQuestion = questions.find((q) => q.id === form.question_id)
-  const availableAnswers = selectedQuestion?.options ?? []
+  const availableAnswers = selectedQuestion ? optionLabels(selectedQuestion) : []
 
   const openCreate = () => {
     setEditing(null)
-    setForm({ question_id: '', use_case_id: '', triggering_answer: '' })
+    setForm({ question_id: '', use_case_id: '', triggering_answer: '', weight: DEFAULT_WEIGHT })
+    setFormError(null)
     setModalOpen(true)
   }
 
@@ -65,34 +152,93 @@ export default function DecisionMatrixManager() {
       question_id: entry.question_id,
       use_case_id: entry.use_case_id,
       triggering_answer: entry.triggering_answer,
+      weight: entry.weight,
     })
+    setFormError(null)
     setModalOpen(true)
   }
 
   const handleSave = async () => {
     setSaving(true)
+    setFormError(null)
     const payload = {
       question_id: form.question_id,
       use_case_id: form.use_case_id,
       triggering_answer: form.triggering_answer,
+      weight: form.weight,
     }
-    if (editing) {
-      await supabase.from('decision_matrix').update(payload).eq('id', editing.id)
-    } else {
-      await supabase.from('decision_matrix').insert(payload)
-    }
+    const { error } = editing
+      ? await supabase.from('decision_matrix').update(payload).eq('id', editing.id)
+      : await supabase.from('decision_matrix').insert(payload)
     setSaving(false)
+    if (error) {
+      setFormError(error.message)
+      return
+    }
     setModalOpen(false)
     fetchAll()
   }
 
   const handleDelete = async (id: string) => {
     if (!confirm('Delete this mapping?')) return
-    await supabase.from('decision_matrix').delete().eq('id', id)
+    setError(null)
+    const { error } = await supabase.from('decision_matrix').delete().eq('id', id)
+    if (error) {
+      setError(error.message)
+      return
+    }
+    fetchAll()
+  }
+
+  const handleWeightChange = async (id: string, weight: number) => {
+    setError(null)
+    const { error } = await supabase.from('decision_matrix').update({ weight }).eq('id', id)
+    if (error) {
+      setError(error.message)
+      return false
+    }
+    setEntries((prev) => prev.map((e) => (e.id === id ? { ...e, weight } : e)))
+    return true
+  }
+
+  const sectionTitles = [...new Set(questions.map((q) => q.section?.title).filter((t): t is string => !!t))].sort()
+  const bulkQuestionIds = questions
+    .filter((q) =>
+      (!bulkForm.section || q.section?.title === bulkForm.section) &&
+      (!bulkForm.question_type || q.question_type === bulkForm.question_type)
+    )
+    .map((q) => q.id)
+  const bulkCount = entries.filter((e) => bulkQuestionIds.includes(e.question_id)).length
+
+  const handleBulkApply = async () => {
+    if (!confirm(`Set weight ${bulkForm.weight} on ${bulkCount} mapping${bulkCount !== 1 ? 's' : ''}?`)) return
+    setSaving(true)
+    setError(null)
+    const { error } = await supabase.from('decision_matrix').update({ weight: bulkForm.weight }).in('question_id', bulkQuestionIds)
+    if (error) setError(error.message)
+    setSaving(false)
+    setBulkOpen(false)
     fetchAll()
   }
 
-  const filtered = search.trim()
+  // All or nothing: the function applies the whole batch in one transaction
+  const handleGridSave = async ({ inserts, updates, deletes }: MatrixChanges) => {
+    const { error } = await supabase.rpc('save_decision_matrix_changes', {
+      p_inserts: inserts,
+      p_updates: updates.map(({ id, question_id, use_case_id, triggering_answer, weight }) => (
+        { id, question_id, use_case_id, triggering_answer, weight }
+      )),
+      p_deletes: deletes,
+    })
+    await fetchAll()
+    return error?.message ?? null
+  }
+
+  const toggleWeightSort = () => {
+    setWeightSort((prev) => (prev === 'none' ? 'desc' : prev === 'desc' ? 'asc' : 'none'))
+  }
+
+  const searched = search.trim()
     ? entries.filter((e) => {
         const q = search.toLowerCase()
         return (
@@ -103,59 +249,128 @@ export default function DecisionMatrixManager() {
       })
     : entries
 
+  const filtered = weightSort === 'none'
+    ? searched
+    : [...searched].sort((a, b) => (weightSort === 'desc' ? b.weight - a.weight : a.weight - b.weight))
+
   if (loading) return <div className="text-gray-500">Loading...</div>
 
   return (
     <div>
       <div className="flex items-center justify-between mb-6">
         <h2 className="text-2xl font-bold text-gray-900">Decision Matrix <span className="text-sm font-normal text-gray-500">({entries.length})</span></h2>
-        <button onClick={openCreate} className="px-4 py-2 bg-blue-600 text-white text-sm font-medium rounded-lg hover:bg-blue-700">
-          + New Mapping
-        </button>
+        <div className="flex gap-2">
+          <select
+            value={questionnaireId}
+            onChange={(e) => setQuestionnaireId(e.target.value)}
+            className="px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 text-sm bg-white"
+          >
+            {questionnaires.map((q) => (
+              <option key={q.id} value={q.id}>v{q.version} ({q.status})</option>
+            ))}
+          </select>
+          <div className="flex rounded-lg border border-gray-300 overflow-hidden text-sm">
+            {(['list', 'grid'] as const).map((v) => (
+              <button
+                key={v}
+                onClick={() => setView(v)}
+                className={`px-3 py-2 capitalize ${view === v ? 'bg-gray-100 font-medium text-gray-900' : 'bg-white text-gray-600 hover:bg-gray-50'}`}
+              >
+                {v}
+              </button>
+            ))}
+          </div>
+          {!readOnly && (
+            <>
+              <button onClick={() => setImportOpen(true)} className="px-4 py-2 border border-gray-300 bg-white text-gray-700 text-sm font-medium rounded-lg hover:bg-gray-50">
+                Import CSV
+              </button>
+              <button onClick={() => setBulkOpen(true)} className="px-4 py-2 border border-gray-300 bg-white text-gray-700 text-sm font-medium rounded-lg hover:bg-gray-50">
+                Bulk Set Weight
+              </button>
+              <button onClick={openCreate} className="px-4 py-2 bg-blue-600 text-white text-sm font-medium rounded-lg hover:bg-blue-700">
+                + New Mapping
+              </button>
+            </>
+          )}
+        </div>
       </div>
 
-      <div className="mb-4">
-        <input
-          type="text"
-          placeholder="Search by question, use case, or answer..."
-          value={search}
-          onChange={(e) => setSearch(e.target.value)}
-          className="w-full max-w-md px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 text-sm"
-        />
-      </div>
+      {readOnly && selectedVersion && (
+        <div className="mb-4 px-4 py-3 rounded-lg bg-amber-50 border border-amber-200 text-sm text-amber-800">
+          Version {selectedVersion.version} is {selectedVersion.status} and read-only. Create a new draft version from Questionnaires to make changes.
+        </div>
+      )}
 
-      <div className="bg-white rounded-xl shadow-sm overflow-hidden">
-        <table className="w-full text-sm">
-          <thead className="bg-gray-50 border-b">
-            <tr>
-              <th className="text-left px-4 py-3 font-medium text-gray-600">Question</th>
-              <th className="text-left px-4 py-3 font-medium text-gray-600 w-36">Triggering Answer</th>
-              <th className="text-left px-4 py-3 font-medium text-gray-600">Use Case</th>
-              <th className="text-right px-4 py-3 font-medium text-gray-600 w-24">Actions</th>
-            </tr>
-          </thead>
-          <tbody className="divide-y">
-            {filtered.map((entry) => (
-              <tr key={entry.id} className="hover:bg-gray-50">
-                <td className="px-4 py-3 text-gray-900 text-xs">{entry.question?.question_text ?? '—'}</td>
-                <td className="px-4 py-3">
-                  <span className="inline-block px-2 py-0.5 rounded-full text-xs font-medium bg-green-100 text-green-700">
-                    {entry.triggering_answer}
-                  </span>
-                </td>
-                <td className="px-4 py-3 text-gray-700 text-xs">{entry.use_case?.title ?? '—'}</td>
-                <td className="px-4 py-3 text-right space-x-2">
-                  <button onClick={() => openEdit(entry)} className="text-blue-600 hover:underline text-xs">Edit</button>
-                  <button onClick={() => handleDelete(entry.id)} className="text-red-600 hover:underline text-xs">Delete</button>
-                </td>
-              </tr>
-            ))}
-            {filtered.length === 0 && (
-              <tr><td colSpan={4} className="px-4 py-8 text-center text-gray-400">{search ? 'No matching entries' : 'No mappings yet'}</td></tr>
-            )}
-          </tbody>
-        </table>
-      </div>
+      {error && (
+        <div className="mb-4 px-4 py-3 rounded-lg bg-red-50 border border-red-200 text-sm text-red-700">{error}</div>
+      )}
+
+      {view === 'grid' ? (
+        <MatrixGrid entries={entries} questions={questions} useCases={useCases} onSave={handleGridSave} readOnly={readOnly} />
+      ) : (
+        <>
+          <div className="mb-4">
+            <input
+              type="text"
+              placeholder="Search by question, use case, or answer..."
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+              className="w-full max-w-md px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 text-sm"
+            />
+          </div>
+
+          <div className="bg-white rounded-xl shadow-sm overflow-hidden">
+            <table className="w-full text-sm">
+              <thead className="bg-gray-50 border-b">
+                <tr>
+                  <th className="text-left px-4 py-3 font-medium text-gray-600">Question</th>
+                  <th className="text-left px-4 py-3 font-medium text-gray-600 w-36">Triggering Answer</th>
+                  <th className="text-left px-4 py-3 font-medium text-gray-600">Use Case</th>
+                  <th className="text-right px-4 py-3 font-medium text-gray-600 w-24">
+                    <button onClick={toggleWeightSort} className="hover:text-gray-900">
+                      Weight {weightSort === 'desc' ? '↓' : weightSort === 'asc' ? '↑' : ''}
+                    </button>
+                  </th>
+                  <th className="text-right px-4 py-3 font-medium text-gray-600 w-24">Actions</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y">
+                {filtered.map((entry) => (
+                  <tr key={entry.id} className="hover:bg-gray-50">
+                    <td className="px-4 py-3 text-gray-900 text-xs">{entry.question?.question_text ?? '—'}</td>
+                    <td className="px-4 py-3">
+                      <span className="inline-block px-2 py-0.5 rounded-full text-xs font-medium bg-green-100 text-green-700">
+                        {entry.triggering_answer}
+                      </span>
+                    </td>
+                    <td className="px-4 py-3 text-gray-700 text-xs">{entry.use_case?.title ?? '—'}</td>
+                    <td className="px-4 py-3 text-right">
+                      <WeightCell
+                        key={entry.weight}
+                        weight={entry.weight}
+                        disabled={readOnly}
+                        onSave={(weight) => handleWeightChange(entry.id, weight)}
+                      />
+                    </td>
+                    <td className="px-4 py-3 text-right space-x-2">
+                      {!readOnly && (
+                        <>
+                          <button onClick={() => openEdit(entry)} className="text-blue-600 hover:underline text-xs">Edit</button>
+                          <button onClick={() => handleDelete(entry.id)} className="text-red-600 hover:underline text-xs">Delete</button>
+                        </>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+                {filtered.length === 0 && (
+                  <tr><td colSpan={5} className="px-4 py-8 text-center text-gray-400">{search ? 'No matching entries' : 'No mappings yet'}</td></tr>
+                )}
+              </tbody>
+            </table>
+          </div>
+        </>
+      )}
 
       <Modal open={modalOpen} onClose={() => setModalOpen(false)} title={editing ? 'Edit Mapping' : 'New Mapping'}>
         <div className="space-y-4">
@@ -212,6 +427,22 @@ export default function DecisionMatrixManager() {
             </select>
           </div>
 
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Weight</label>
+            <input
+              type="number"
+              min={0}
+              value={form.weight}
+              onChange={(e) => setForm({ ...form, weight: parseInt(e.target.value) || 0 })}
+              className="w-24 px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 text-sm"
+            />
+            <p className="text-xs text-gray-400 mt-1">Added to the use case's score when this answer is given</p>
+          </div>
+
+          {formError && (
+            <p className="text-sm text-red-600 bg-red-50 p-2 rounded">{formError}</p>
+          )}
+
           <div className="flex justify-end gap-2 pt-2">
             <button onClick={() => setModalOpen(false)} className="px-4 py-2 border border-gray-300 rounded-lg text-sm hover:bg-gray-50">Cancel</button>
             <button
@@ -224,6 +455,65 @@ export default function DecisionMatrixManager() {
           </div>
         </div>
       </Modal>
+
+      <Modal open={bulkOpen} onClose={() => setBulkOpen(false)} title="Bulk Set Weight">
+        <div className="space-y-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Section</label>
+            <select
+              value={bulkForm.section}
+              onChange={(e) => setBulkForm({ ...bulkForm, section: e.target.value })}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 text-sm"
+            >
+              <option value="">Any section</option>
+              {sectionTitles.map((t) => <option key={t} value={t}>{t}</option>)}
+            </select>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Question Type</label>
+            <select
+              value={bulkForm.question_type}
+              onChange={(e) => setBulkForm({ ...bulkForm, question_type: e.target.value })}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 text-sm"
+            >
+              <option value="">Any type</option>
+              {questionTypes.map((t) => <option key={t} value={t}>{t}</option>)}
+            </select>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Weight</label>
+            <input
+              type="number"
+              min={0}
+              value={bulkForm.weight}
+              onChange={(e) => setBulkForm({ ...bulkForm, weight: parseInt(e.target.value) || 0 })}
+              className="w-24 px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 text-sm"
+            />
+          </div>
+          <p className="text-sm text-gray-600">{bulkCount} mapping{bulkCount !== 1 ? 's' : ''} will be updated.</p>
+          <div className="flex justify-end gap-2 pt-2">
+            <button onClick={() => setBulkOpen(false)} className="px-4 py-2 border border-gray-300 rounded-lg text-sm hover:bg-gray-50">Cancel</button>
+            <button
+              onClick={handleBulkApply}
+              disabled={(!bulkForm.section && !bulkForm.question_type) || bulkCount === 0 || saving}
+              className="px-4 py-2 bg-blue-600 text-white rounded-lg text-sm hover:bg-blue-700 disabled:opacity-50"
+            >
+              {saving ? 'Applying...' : 'Apply'}
+            </button>
+          </div>
+        </div>
+      </Modal>
+
+      {importOpen && (
+        <MatrixImport
+          questionnaireId={questionnaireId}
+          questions={questions}
+          useCases={useCases}
+          entries={entries}
+          onClose={() => setImportOpen(false)}
+          onImported={() => { setImportOpen(false); fetchAll() }}
+        />
+      )}
     </div>
   )
 }
@@ -0,0 +1,275 @@
+import { useCallback, useEffect, useMemo, useState, type ReactNode } from 'react'
+import { Link } from 'react-router-dom'
+import { supabase } from '../../supabaseClient'
+import { scoringSettings } from '../../../supabase/functions/_shared/scoring.ts'
+import { matrixHealth } from '../../../supabase/functions/_shared/matrixHealth.ts'
+import type { StoredOptions } from '../../../supabase/functions/_shared/options.ts'
+
+interface MatrixRow {
+  id: string
+  question_id: string
+  use_case_id: string
+  triggering_answer: string
+  weight: number
+}
+
+interface Question {
+  id: string
+  question_text: string
+  question_type: 'MultipleChoice' | 'YesNo' | 'Checkbox'
+  options: StoredOptions
+  order: number
+  section_id: string
+  section_title: string
+  decision_matrix: MatrixRow[]
+}
+
+interface Section {
+  id: string
+  title: string
+  order: number
+  questions: Omit<Question, 'section_id' | 'section_title'>[]
+}
+
+interface UseCase {
+  id: string
+  title: string
+  category: string
+  sub_category: string
+  use_case_number: number | null
+}
+
+interface QuestionnaireOption {
+  id: string
+  version: string
+  status: 'draft' | 'review' | 'published' | 'archived'
+  scoring_settings: unknown
+}
+
+function Panel({ id, title, count, empty, children }: { id: string; title: string; count: number; empty: string; children: ReactNode }) {
+  return (
+    <div id={id} className="bg-white rounded-xl shadow-sm overflow-hidden mb-6 scroll-mt-4">
+      <div className="px-6 py-4 border-b flex items-center justify-between">
+        <h3 className="text-lg font-semibold text-gray-900">{title}</h3>
+        <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${count > 0 ? 'bg-amber-100 text-amber-800' : 'bg-green-100 text-green-700'}`}>
+          {count}
+        </span>
+      </div>
+      {count === 0 ? <p className="px-6 py-4 text-sm text-gray-400">{empty}</p> : children}
+    </div>
+  )
+}
+
+export default function MatrixHealth() {
+  const [questionnaires, setQuestionnaires] = useState<QuestionnaireOption[]>([])
+  const [questionnaireId, setQuestionnaireId] = useState('')
+  const [questions, setQuestions] = useState<Question[]>([])
+  const [useCases, setUseCases] = useState<UseCase[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    async function fetchQuestionnaires() {
+      const { data } = await supabase
+        .from('questionnaires')
+        .select('id, version, status, scoring_settings')
+        .order('created_at', { ascending: false })
+      const items = data ?? []
+      const preferred = items.find((q) => q.status === 'draft') ?? items.find((q) => q.status === 'published') ?? items[0]
+      setQuestionnaires(items)
+      setQuestionnaireId(preferred?.id ?? '')
+      if (!preferred) setLoading(false)
+    }
+    fetchQuestionnaires()
+  }, [])
+
+  const fetchAll = useCallback(async () => {
+    if (!questionnaireId) return
+    const [{ data: sectionData }, { data: ucData }] = await Promise.all([
+      supabase
+        .from('sections')
+        .select('id, title, order, questions(id, question_text, question_type, options, order, decision_matrix(id, question_id, use_case_id, triggering_answer, weight))')
+        .eq('questionnaire_id', questionnaireId)
+        .order('order'),
+      supabase.from('use_cases').select('id, title, category, sub_category, use_case_number'),
+    ])
+    const sections = (sectionData as unknown as Section[]) ?? []
+    setQuestions(sections.flatMap((s) =>
+      [...s.questions]
+        .sort((a, b) => a.order - b.order)
+        .map((q) => ({ ...q, section_id: s.id, section_title: s.title }))
+    ))
+    setUseCases(
+      ((ucData as UseCase[]) ?? []).sort((a, b) =>
+        (a.use_case_number ?? Infinity) - (b.use_case_number ?? Infinity) || a.title.localeCompare(b.title)
+      )
+    )
+    setLoading(false)
+  }, [questionnaireId])
+
+  useEffect(() => { fetchAll() }, [fetchAll])
+
+  const selectedVersion = questionnaires.find((q) => q.id === questionnaireId)
+  const minScore = scoringSettings(selectedVersion?.scoring_settings).min_score
+
+  const health = useMemo(
+    () => matrixHealth(questions, questions.flatMap((q) => q.decision_matrix), useCases, scoringSettings(selectedVersion?.scoring_settings)),
+    [questions, useCases, selectedVersion]
+  )
+  const useCaseTitle = new Map(useCases.map((uc) => [uc.id, uc.title]))
+  const questionLink = (q: Question) =>
+    `/admin/questionnaires/${questionnaireId}/sections/${q.section_id}/questions`
+
+  const deleteMapping = async (id: string) => {
+    if (!confirm('Delete this mapping?')) return
+    setError(null)
+    const { error } = await supabase.from('decision_matrix').delete().eq('id', id)
+    if (error) setError(error.message)
+    fetchAll()
+  }
+
+  // Dead options grouped under their question
+  const deadByQuestion = new Map<string, { question: Question; options: string[] }>()
+  for (const { question, option } of health.deadOptions) {
+    const group = deadByQuestion.get(question.id) ?? { question, options: [] }
+    group.options.push(option)
+    deadByQuestion.set(question.id, group)
+  }
+
+  if (loading) return <div className="text-gray-500">Loading...</div>
+
+  const checks = [
+    { id: 'orphaned', label: 'Orphaned answers', count: health.orphanedMappings.length },
+    { id: 'unmapped-use-cases', label: 'Use cases without mappings', count: health.unmappedUseCases.length },
+    { id: 'unreachable', label: `Use cases below ${minScore}`, count: health.unreachableUseCases.length },
+    { id: 'unmapped-questions', label: 'Questions without mappings', count: health.unmappedQuestions.length },
+    { id: 'dead-options', label: 'Options that trigger nothing', count: health.deadOptions.length },
+  ]
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-6">
+        <h2 className="text-2xl font-bold text-gray-900">Matrix Health</h2>
+        <select
+          value={questionnaireId}
+          onChange={(e) => setQuestionnaireId(e.target.value)}
+          className="px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 text-sm bg-white"
+        >
+          {questionnaires.map((q) => (
+            <option key={q.id} value={q.id}>v{q.version} ({q.status})</option>
+          ))}
+        </select>
+      </div>
+
+      {error && (
+        <div className="mb-4 px-4 py-3 rounded-lg bg-red-50 border border-red-200 text-sm text-red-700">{error}</div>
+      )}
+
+      <div className="grid grid-cols-2 md:grid-cols-5 gap-4 mb-6">
+        {checks.map((c) => (
+          <a key={c.id} href={`#${c.id}`} className="bg-white rounded-xl shadow-sm p-4 hover:shadow-md transition-shadow">
+            <p className="text-xs text-gray-500">{c.label}</p>
+            <p className={`text-xl font-bold mt-1 ${c.count > 0 ? 'text-amber-700' : 'text-green-700'}`}>{c.count}</p>
+          </a>
+        ))}
+      </div>
+
+      <Panel id="orphaned" title="Orphaned Answers" count={health.orphanedMappings.length} empty="Every mapping matches one of its question's options.">
+        <p className="px-6 pt-3 text-xs text-gray-500">
+          These mappings can never fire: their answer is not one of the question's current options, usually because the option was removed or the mapping was imported with a misspelt answer.
+        </p>
+        <table className="w-full text-sm">
+          <thead className="bg-gray-50 border-b">
+            <tr>
+              <th className="text-left px-4 py-3 font-medium text-gray-600">Question</th>
+              <th className="text-left px-4 py-3 font-medium text-gray-600 w-40">Mapped Answer</th>
+              <th className="text-left px-4 py-3 font-medium text-gray-600">Use Case</th>
+              <th className="text-right px-4 py-3 font-medium text-gray-600 w-32">Actions</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y">
+            {health.orphanedMappings.map(({ mapping, question }) => (
+              <tr key={mapping.id} className="hover:bg-gray-50">
+                <td className="px-4 py-3 text-xs">
+                  <span className="text-gray-400">{question.section_title} &middot; </span>{question.question_text}
+                </td>
+                <td className="px-4 py-3">
+                  <span className="inline-block px-2 py-0.5 rounded-full text-xs font-medium bg-red-100 text-red-700">{mapping.triggering_answer}</span>
+                </td>
+                <td className="px-4 py-3 text-xs text-gray-700">{useCaseTitle.get(mapping.use_case_id) ?? '—'}</td>
+                <td className="px-4 py-3 text-right space-x-2">
+                  <Link to={questionLink(question)} className="text-blue-600 hover:underline text-xs">Question</Link>
+                  {selectedVersion?.status === 'draft' && (
+                    <button onClick={() => deleteMapping(mapping.id)} className="text-red-600 hover:underline text-xs">Delete</button>
+                  )}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </Panel>
+
+      <Panel id="unmapped-use-cases" title="Use Cases Without Mappings" count={health.unmappedUseCases.length} empty="Every use case is mapped from at least one answer.">
+        <ul className="divide-y">
+          {health.unmappedUseCases.map((uc) => (
+            <li key={uc.id} className="px-6 py-2 text-sm">
+              <span className="text-gray-400 text-xs mr-2">{uc.use_case_number ?? '—'}</span>
+              {uc.title}
+              <span className="text-xs text-gray-400"> &middot; {uc.category} / {uc.sub_category}</span>
+            </li>
+          ))}
+        </ul>
+      </Panel>
+
+      <Panel id="unreachable" title={`Use Cases That Cannot Reach ${minScore}`} count={health.unreachableUseCases.length} empty="Every mapped use case can reach the recommendation threshold.">
+        <p className="px-6 pt-3 text-xs text-gray-500">
+          Even answering every question in their favour, these use cases score below {minScore} and are never recommended.
+        </p>
+        <table className="w-full text-sm">
+          <thead className="bg-gray-50 border-b">
+            <tr>
+              <th className="text-left px-4 py-3 font-medium text-gray-600 w-16">#</th>
+              <th className="text-left px-4 py-3 font-medium text-gray-600">Use Case</th>
+              <th className="text-right px-4 py-3 font-medium text-gray-600 w-32">Max Score</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y">
+            {health.unreachableUseCases.map(({ useCase, maxScore }) => (
+              <tr key={useCase.id} className="hover:bg-gray-50">
+                <td className="px-4 py-3 text-xs text-gray-500">{useCase.use_case_number ?? '—'}</td>
+                <td className="px-4 py-3">{useCase.title}</td>
+                <td className="px-4 py-3 text-right font-medium text-amber-700">{maxScore} / {minScore}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </Panel>
+
+      <Panel id="unmapped-questions" title="Questions Without Mappings" count={health.unmappedQuestions.length} empty="Every question contributes to at least one use case.">
+        <ul className="divide-y">
+          {health.unmappedQuestions.map((q) => (
+            <li key={q.id} className="px-6 py-2 text-sm flex items-center justify-between gap-4">
+              <span><span className="text-gray-400 text-xs">{q.section_title} &middot; </span>{q.question_text}</span>
+              <Link to={questionLink(q)} className="text-blue-600 hover:underline text-xs flex-shrink-0">Question</Link>
+            </li>
+          ))}
+        </ul>
+      </Panel>
+
+      <Panel id="dead-options" title="Options That Trigger Nothing" count={health.deadOptions.length} empty="Every option of a mapped question triggers at least one use case.">
+        <ul className="divide-y">
+          {[...deadByQuestion.values()].map(({ question, options }) => (
+            <li key={question.id} className="px-6 py-2 text-sm">
+              <p><span className="text-gray-400 text-xs">{question.section_title} &middot; </span>{question.question_text}</p>
+              <div className="flex flex-wrap gap-1 mt-1">
+                {options.map((o) => (
+                  <span key={o} className="inline-block px-2 py-0.5 rounded-full text-xs bg-gray-100 text-gray-600">{o}</span>
+                ))}
+              </div>
+            </li>
+          ))}
+        </ul>
+      </Panel>
+    </div>
+  )
+}
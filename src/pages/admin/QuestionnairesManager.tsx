@@ -1,7 +1,21 @@
 import { useEffect, useState } from 'react'
 import { Link } from 'react-router-dom'
 import { supabase } from '../../supabaseClient'
+import { downloadFile } from '../../files'
+import { stringify } from 'yaml'
 import Modal from '../../components/admin/Modal'
+import QuestionnaireImport from '../../components/admin/QuestionnaireImport'
+import {
+  buildDocument,
+  slugify,
+  type SourceSection,
+  type SourceUseCase,
+} from '../../../supabase/functions/_shared/questionnaireDocument.ts'
+import {
+  scoringSettings,
+  scoringSettingsErrors,
+  type RankingStrategy,
+} from '../../../supabase/functions/_shared/scoring.ts'
 
 interface Questionnaire {
   id: string
@@ -9,10 +23,35 @@ interface Questionnaire {
   version: string
   description: string | null
   is_active: boolean
+  status: 'draft' | 'review' | 'published' | 'archived'
+  published_at: string | null
   created_at: string
+  scoring_settings: unknown
 }
 
-const emptyForm = { title: '', version: '', description: '', is_active: false }
+const emptyForm = { title: '', version: '', description: '' }
+
+const emptyScoringForm = { min_score: '', min_percent: '', top_n_per_phase: '', ranking: 'raw' as RankingStrategy }
+
+interface ValidationIssue {
+  issue: 'empty_section' | 'unmapped_question' | 'broken_condition'
+  section_title: string
+  question_text: string | null
+  detail: string
+}
+
+const issueLabels: Record<ValidationIssue['issue'], string> = {
+  empty_section: 'Sections without questions',
+  unmapped_question: 'Questions without matrix mappings',
+  broken_condition: 'Broken conditions',
+}
+
+const statusBadge: Record<Questionnaire['status'], string> = {
+  draft: 'bg-gray-100 text-gray-600',
+  review: 'bg-yellow-100 text-yellow-700',
+  published: 'bg-green-100 text-green-700',
+  archived: 'bg-gray-100 text-gray-400',
+}
 
 export default function QuestionnairesManager() {
   const [items, setItems] = useState<Questionnaire[]>([])
@@ -21,6 +60,17 @@ export default function QuestionnairesManager() {
   const [editing, setEditing] = useState<Questionnaire | null>(null)
   const [form, setForm] = useState(emptyForm)
   const [saving, setSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [publishTarget, setPublishTarget] = useState<Questionnaire | null>(null)
+  const [report, setReport] = useState<ValidationIssue[] | null>(null)
+  const [cloneSource, setCloneSource] = useState<Questionnaire | null>(null)
+  const [cloneForm, setCloneForm] = useState({ title: '', version: '' })
+  const [cloneError, setCloneError] = useState<string | null>(null)
+  const [exportTarget, setExportTarget] = useState<Questionnaire | null>(null)
+  const [importOpen, setImportOpen] = useState(false)
+  const [scoringTarget, setScoringTarget] = useState<Questionnaire | null>(null)
+  const [scoringForm, setScoringForm] = useState(emptyScoringForm)
+  const [scoringError, setScoringError] = useState<string | null>(null)
 
   const fetchAll = async () => {
     const { data } = await supabase
@@ -41,7 +91,7 @@ export default function QuestionnairesManager() {
 
   const openEdit = (q: Questionnaire) => {
     setEditing(q)
-    setForm({ title: q.title, version: q.version, description: q.description ?? '', is_active: q.is_active })
+    setForm({ title: q.title, version: q.version, description: q.description ?? '' })
     setModalOpen(true)
   }
 
@@ -52,14 +102,12 @@ export default function QuestionnairesManager() {
         title: form.title,
         version: form.version,
         description: form.description || null,
-        is_active: form.is_active,
       }).eq('id', editing.id)
     } else {
       await supabase.from('questionnaires').insert({
         title: form.title,
         version: form.version,
         description: form.description || null,
-        is_active: form.is_active,
       })
     }
     setSaving(false)
@@ -73,29 +121,163 @@ export default function QuestionnairesManager() {
     fetchAll()
   }
 
-  const toggleActive = async (q: Questionnaire) => {
-    await supabase.from('questionnaires').update({ is_active: !q.is_active }).eq('id', q.id)
+  const setStatus = async (q: Questionnaire, status: 'draft' | 'review') => {
+    setError(null)
+    const { error } = await supabase.from('questionnaires').update({ status }).eq('id', q.id)
+    if (error) setError(error.message)
     fetchAll()
   }
 
+  const openPublish = async (q: Questionnaire) => {
+    setPublishTarget(q)
+    setReport(null)
+    const { data, error } = await supabase.rpc('questionnaire_validation_report', { p_questionnaire_id: q.id })
+    if (error) setError(error.message)
+    setReport(data ?? [])
+  }
+
+  const handlePublish = async () => {
+    if (!publishTarget) return
+    setSaving(true)
+    setError(null)
+    const { error } = await supabase.rpc('publish_questionnaire', { p_questionnaire_id: publishTarget.id })
+    if (error) setError(error.message)
+    setSaving(false)
+    setPublishTarget(null)
+    fetchAll()
+  }
+
+  const openClone = (q: Questionnaire) => {
+    setCloneSource(q)
+    setCloneForm({ title: q.title, version: '' })
+    setCloneError(null)
+  }
+
+  const handleClone = async () => {
+    if (!cloneSource) return
+    setSaving(true)
+    setCloneError(null)
+    const { error } = await supabase.rpc('clone_questionnaire', {
+      p_source_id: cloneSource.id,
+      p_version: cloneForm.version,
+      p_title: cloneForm.title,
+    })
+    setSaving(false)
+    // Keep the dialog open so a clashing version number can be corrected
+    if (error) {
+      setCloneError(error.code === '23505' ? `Version ${cloneForm.version} already exists` : error.message)
+      return
+    }
+    setCloneSource(null)
+    fetchAll()
+  }
+
+  const openScoring = (q: Questionnaire) => {
+    const settings = scoringSettings(q.scoring_settings)
+    setScoringTarget(q)
+    setScoringForm({
+      min_score: String(settings.min_score),
+      min_percent: String(settings.min_percent),
+      top_n_per_phase: settings.top_n_per_phase === null ? '' : String(settings.top_n_per_phase),
+      ranking: settings.ranking,
+    })
+    setScoringError(null)
+  }
+
+  const handleScoringSave = async () => {
+    if (!scoringTarget) return
+    const settings = {
+      min_score: Number(scoringForm.min_score),
+      min_percent: Number(scoringForm.min_percent || 0),
+      top_n_per_phase: scoringForm.top_n_per_phase.trim() ? Number(scoringForm.top_n_per_phase) : null,
+      ranking: scoringForm.ranking,
+    }
+    const errors = scoringSettingsErrors(settings)
+    if (errors.length > 0) {
+      setScoringError(errors.join('. '))
+      return
+    }
+    setSaving(true)
+    setScoringError(null)
+    const { error } = await supabase.from('questionnaires').update({ scoring_settings: settings }).eq('id', scoringTarget.id)
+    setSaving(false)
+    if (error) {
+      setScoringError(error.message)
+      return
+    }
+    setScoringTarget(null)
+    fetchAll()
+  }
+
+  const handleExport = async (format: 'json' | 'yaml') => {
+    if (!exportTarget) return
+    setSaving(true)
+    setError(null)
+    const [sectionsRes, useCasesRes] = await Promise.all([
+      supabase
+        .from('sections')
+        .select(`
+          title, description, order,
+          questions(
+            id, question_text, question_type, options, order,
+            condition_rule, condition_question_id, condition_answer,
+            decision_matrix(use_case_id, triggering_answer, weight)
+          )
+        `)
+        .eq('questionnaire_id', exportTarget.id),
+      supabase.from('use_cases').select('id, title, category, sub_category, engagement_category, use_case_number'),
+    ])
+    setSaving(false)
+    const failed = sectionsRes.error ?? useCasesRes.error
+    if (failed) {
+      setError(failed.message)
+      setExportTarget(null)
+      return
+    }
+
+    const doc = buildDocument(
+      exportTarget,
+      sectionsRes.data as unknown as SourceSection[],
+      useCasesRes.data as unknown as SourceUseCase[],
+    )
+    const baseName = `${slugify(exportTarget.title)}-v${exportTarget.version}`
+    if (format === 'json') {
+      downloadFile(`${baseName}.json`, JSON.stringify(doc, null, 2) + '\n', 'application/json')
+    } else {
+      downloadFile(`${baseName}.yaml`, stringify(doc, { lineWidth: 0 }), 'text/yaml')
+    }
+    setExportTarget(null)
+  }
+
   if (loading) return <div className="text-gray-500">Loading...</div>
 
+  const live = items.find((i) => i.status === 'published')
+
   return (
     <div>
       <div className="flex items-center justify-between mb-6">
         <h2 className="text-2xl font-bold text-gray-900">Questionnaires</h2>
-        <button onClick={openCreate} className="px-4 py-2 bg-blue-600 text-white text-sm font-medium rounded-lg hover:bg-blue-700">
-          + New Questionnaire
-        </button>
+        <div className="flex gap-2">
+          <button onClick={() => setImportOpen(true)} className="px-4 py-2 border border-gray-300 text-sm font-medium rounded-lg hover:bg-gray-50">
+            Import
+          </button>
+          <button onClick={openCreate} className="px-4 py-2 bg-blue-600 text-white text-sm font-medium rounded-lg hover:bg-blue-700">
+            + New Questionnaire
+          </button>
+        </div>
       </div>
 
+      {error && (
+        <div className="mb-4 px-4 py-3 rounded-lg bg-red-50 border border-red-200 text-sm text-red-700">{error}</div>
+      )}
+
       <div className="bg-white rounded-xl shadow-sm overflow-hidden">
         <table className="w-full text-sm">
           <thead className="bg-gray-50 border-b">
             <tr>
               <th className="text-left px-4 py-3 font-medium text-gray-600">Title</th>
               <th className="text-left px-4 py-3 font-medium text-gray-600">Version</th>
-              <th className="text-center px-4 py-3 font-medium text-gray-600">Active</th>
+              <th className="text-center px-4 py-3 font-medium text-gray-600">Status</th>
               <th className="text-right px-4 py-3 font-medium text-gray-600">Actions</th>
             </tr>
           </thead>
@@ -110,16 +292,29 @@ export default function QuestionnairesManager() {
                 </td>
                 <td className="px-4 py-3 text-gray-700">{q.version}</td>
                 <td className="px-4 py-3 text-center">
-                  <button
-                    onClick={() => toggleActive(q)}
-                    className={`inline-block px-2 py-0.5 rounded-full text-xs font-medium ${
-                      q.is_active ? 'bg-green-100 text-green-700' : 'bg-gray-100 text-gray-500'
-                    }`}
-                  >
-                    {q.is_active ? 'Active' : 'Inactive'}
-                  </button>
+                  <span className={`inline-block px-2 py-0.5 rounded-full text-xs font-medium capitalize ${statusBadge[q.status]}`}>
+                    {q.status}
+                  </span>
+                  {q.published_at && (
+                    <p className="text-xs text-gray-400 mt-0.5">{new Date(q.published_at).toLocaleDateString()}</p>
+                  )}
                 </td>
                 <td className="px-4 py-3 text-right space-x-2">
+                  {q.status === 'draft' && (
+                    <button onClick={() => setStatus(q, 'review')} className="text-blue-600 hover:underline text-xs">Submit for Review</button>
+                  )}
+                  {q.status === 'review' && (
+                    <>
+                      <button onClick={() => setStatus(q, 'draft')} className="text-blue-600 hover:underline text-xs">Back to Draft</button>
+                      <button onClick={() => openPublish(q)} className="text-green-700 hover:underline text-xs">Publish</button>
+                    </>
+                  )}
+                  {q.status === 'archived' && (
+                    <button onClick={() => openPublish(q)} className="text-green-700 hover:underline text-xs">Reactivate</button>
+                  )}
+                  <button onClick={() => openScoring(q)} className="text-blue-600 hover:underline text-xs">Scoring</button>
+                  <button onClick={() => openClone(q)} className="text-blue-600 hover:underline text-xs">Duplicate</button>
+                  <button onClick={() => setExportTarget(q)} className="text-blue-600 hover:underline text-xs">Export</button>
                   <button onClick={() => openEdit(q)} className="text-blue-600 hover:underline text-xs">Edit</button>
                   <button onClick={() => handleDelete(q.id)} className="text-red-600 hover:underline text-xs">Delete</button>
                 </td>
@@ -159,15 +354,6 @@ export default function QuestionnairesManager() {
               className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
             />
           </div>
-          <label className="flex items-center gap-2">
-            <input
-              type="checkbox"
-              checked={form.is_active}
-              onChange={(e) => setForm({ ...form, is_active: e.target.checked })}
-              className="h-4 w-4 text-blue-600 rounded"
-            />
-            <span className="text-sm text-gray-700">Set as active questionnaire</span>
-          </label>
           <div className="flex justify-end gap-2 pt-2">
             <button onClick={() => setModalOpen(false)} className="px-4 py-2 border border-gray-300 rounded-lg text-sm hover:bg-gray-50">Cancel</button>
             <button
@@ -180,6 +366,202 @@ export default function QuestionnairesManager() {
           </div>
         </div>
       </Modal>
+
+      <Modal open={!!publishTarget} onClose={() => setPublishTarget(null)} title={`Publish Version ${publishTarget?.version ?? ''}`}>
+        <div className="space-y-4">
+          <p className="text-sm text-gray-600">
+            {live && live.id !== publishTarget?.id
+              ? `New respondents will get this version instead of version ${live.version}. Respondents already in progress stay on the version they started.`
+              : 'New respondents will get this version.'}
+          </p>
+          {report === null ? (
+            <p className="text-sm text-gray-500">Checking content...</p>
+          ) : report.length === 0 ? (
+            <p className="px-3 py-2 rounded-lg bg-green-50 text-sm text-green-700">No problems found.</p>
+          ) : (
+            <div className="max-h-72 overflow-y-auto space-y-3">
+              {(Object.keys(issueLabels) as ValidationIssue['issue'][]).map((kind) => {
+                const issues = report.filter((r) => r.issue === kind)
+                if (issues.length === 0) return null
+                return (
+                  <div key={kind}>
+                    <h4 className="text-sm font-medium text-amber-800">{issueLabels[kind]} ({issues.length})</h4>
+                    <ul className="mt-1 space-y-1">
+                      {issues.map((r, i) => (
+                        <li key={i} className="text-xs text-gray-700">
+                          <span className="text-gray-400">{r.section_title}</span>
+                          {r.question_text && <> &middot; {r.question_text}</>}
+                          {kind === 'broken_condition' && <p className="text-red-600">{r.detail}</p>}
+                        </li>
+                      ))}
+                    </ul>
+                  </div>
+                )
+              })}
+            </div>
+          )}
+          <div className="flex justify-end gap-2 pt-2">
+            <button onClick={() => setPublishTarget(null)} className="px-4 py-2 border border-gray-300 rounded-lg text-sm hover:bg-gray-50">Cancel</button>
+            <button
+              onClick={handlePublish}
+              disabled={report === null || saving}
+              className="px-4 py-2 bg-green-600 text-white rounded-lg text-sm hover:bg-green-700 disabled:opacity-50"
+            >
+              {saving ? 'Publishing...' : report && report.length > 0 ? 'Publish Anyway' : 'Publish'}
+            </button>
+          </div>
+        </div>
+      </Modal>
+
+      <Modal open={!!cloneSource} onClose={() => setCloneSource(null)} title="Duplicate Questionnaire">
+        <div className="space-y-4">
+          <p className="text-sm text-gray-600">
+            Copies the sections, questions, conditions, decision matrix and scoring settings of version {cloneSource?.version} into a new draft
+            that can be edited without affecting respondents.
+          </p>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Title</label>
+            <input
+              value={cloneForm.title}
+              onChange={(e) => setCloneForm({ ...cloneForm, title: e.target.value })}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Version</label>
+            <input
+              value={cloneForm.version}
+              onChange={(e) => setCloneForm({ ...cloneForm, version: e.target.value })}
+              placeholder="e.g. 4.1"
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+          </div>
+          {cloneError && <p className="text-sm text-red-600">{cloneError}</p>}
+          <div className="flex justify-end gap-2 pt-2">
+            <button onClick={() => setCloneSource(null)} className="px-4 py-2 border border-gray-300 rounded-lg text-sm hover:bg-gray-50">Cancel</button>
+            <button
+              onClick={handleClone}
+              disabled={!cloneForm.title || !cloneForm.version || saving}
+              className="px-4 py-2 bg-blue-600 text-white rounded-lg text-sm hover:bg-blue-700 disabled:opacity-50"
+            >
+              {saving ? 'Copying...' : 'Duplicate'}
+            </button>
+          </div>
+        </div>
+      </Modal>
+
+      <Modal open={!!scoringTarget} onClose={() => setScoringTarget(null)} title={`Scoring for Version ${scoringTarget?.version ?? ''}`}>
+        <div className="space-y-4">
+          {scoringTarget && scoringTarget.status !== 'draft' && (
+            <div className="px-4 py-3 rounded-lg bg-amber-50 border border-amber-200 text-sm text-amber-800">
+              Version {scoringTarget.version} is {scoringTarget.status}, so its scoring is read-only. Duplicate it to try different settings.
+            </div>
+          )}
+          <fieldset disabled={scoringTarget?.status !== 'draft'} className="space-y-4">
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Minimum score</label>
+                <input
+                  type="number"
+                  min={0}
+                  value={scoringForm.min_score}
+                  onChange={(e) => setScoringForm({ ...scoringForm, min_score: e.target.value })}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:bg-gray-50"
+                />
+                <p className="text-xs text-gray-400 mt-1">Total weight a use case needs</p>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Minimum % of max</label>
+                <input
+                  type="number"
+                  min={0}
+                  max={100}
+                  value={scoringForm.min_percent}
+                  onChange={(e) => setScoringForm({ ...scoringForm, min_percent: e.target.value })}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:bg-gray-50"
+                />
+                <p className="text-xs text-gray-400 mt-1">Share of the use case's highest possible score</p>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Top N per phase</label>
+                <input
+                  type="number"
+                  min={1}
+                  value={scoringForm.top_n_per_phase}
+                  onChange={(e) => setScoringForm({ ...scoringForm, top_n_per_phase: e.target.value })}
+                  placeholder="No cap"
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:bg-gray-50"
+                />
+                <p className="text-xs text-gray-400 mt-1">Most use cases per engagement category</p>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Ranking</label>
+                <select
+                  value={scoringForm.ranking}
+                  onChange={(e) => setScoringForm({ ...scoringForm, ranking: e.target.value as RankingStrategy })}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 bg-white disabled:bg-gray-50"
+                >
+                  <option value="raw">Raw score</option>
+                  <option value="normalized">Normalized score</option>
+                </select>
+                <p className="text-xs text-gray-400 mt-1">
+                  {scoringForm.ranking === 'normalized'
+                    ? 'Score divided by the use case\'s highest possible score'
+                    : 'Sum of the triggered weights'}
+                </p>
+              </div>
+            </div>
+          </fieldset>
+          {scoringError && <p className="text-sm text-red-600">{scoringError}</p>}
+          <div className="flex justify-end gap-2 pt-2">
+            <button onClick={() => setScoringTarget(null)} className="px-4 py-2 border border-gray-300 rounded-lg text-sm hover:bg-gray-50">
+              {scoringTarget?.status === 'draft' ? 'Cancel' : 'Close'}
+            </button>
+            {scoringTarget?.status === 'draft' && (
+              <button
+                onClick={handleScoringSave}
+                disabled={!scoringForm.min_score || saving}
+                className="px-4 py-2 bg-blue-600 text-white rounded-lg text-sm hover:bg-blue-700 disabled:opacity-50"
+              >
+                {saving ? 'Saving...' : 'Save'}
+              </button>
+            )}
+          </div>
+        </div>
+      </Modal>
+
+      <Modal open={!!exportTarget} onClose={() => setExportTarget(null)} title={`Export Version ${exportTarget?.version ?? ''}`}>
+        <div className="space-y-4">
+          <p className="text-sm text-gray-600">
+            Downloads the sections, questions, conditions, referenced use cases, matrix mappings and scoring settings as a document that
+            can be kept in git and imported again as a new version.
+          </p>
+          <div className="flex justify-end gap-2 pt-2">
+            <button onClick={() => setExportTarget(null)} className="px-4 py-2 border border-gray-300 rounded-lg text-sm hover:bg-gray-50">Cancel</button>
+            <button
+              onClick={() => handleExport('json')}
+              disabled={saving}
+              className="px-4 py-2 border border-gray-300 rounded-lg text-sm hover:bg-gray-50 disabled:opacity-50"
+            >
+              Download JSON
+            </button>
+            <button
+              onClick={() => handleExport('yaml')}
+              disabled={saving}
+              className="px-4 py-2 bg-blue-600 text-white rounded-lg text-sm hover:bg-blue-700 disabled:opacity-50"
+            >
+              {saving ? 'Exporting...' : 'Download YAML'}
+            </button>
+          </div>
+        </div>
+      </Modal>
+
+      {importOpen && (
+        <QuestionnaireImport
+          onClose={() => setImportOpen(false)}
+          onImported={() => { setImportOpen(false); fetchAll() }}
+        />
+      )}
     </div>
   )
 }
@@ -2,40 +2,113 @@ import { useEffect, useState } from 'react'
 import { useParams, Link } from 'react-router-dom'
 import { supabase } from '../../supabaseClient'
 import Modal from '../../components/admin/Modal'
+import ConditionRuleEditor from '../../components/admin/ConditionRuleEditor'
+import {
+  describeRule,
+  questionRule,
+  ruleLeaves,
+  ruleQuestionIds,
+  type ConditionRule,
+} from '../../../supabase/functions/_shared/conditions.ts'
+import {
+  optionLabels,
+  questionOptions,
+  type QuestionOption,
+  type StoredOptions,
+} from '../../../supabase/functions/_shared/options.ts'
 
 interface Question {
   id: string
   section_id: string
   question_text: string
   question_type: 'MultipleChoice' | 'YesNo' | 'Checkbox'
-  options: string[] | null
+  options: QuestionOption[] | null
   order: number
+  condition_rule: ConditionRule | null
+  condition_question_id: string | null
+  condition_answer: string | null
+}
+
+// A question of the same questionnaire, positioned by section and question order
+interface OrderedQuestion {
+  id: string
+  question_text: string
+  question_type: Question['question_type']
+  options: StoredOptions
+  condition_rule: ConditionRule | null
+  condition_question_id: string | null
+  condition_answer: string | null
+  sectionId: string
+  sectionTitle: string
+  position: [number, number]
+}
+
+interface SectionWithQuestions {
+  id: string
+  title: string
+  order: number
+  questions: (Omit<OrderedQuestion, 'sectionId' | 'sectionTitle' | 'position'> & { order: number })[]
 }
 
 const questionTypes = ['MultipleChoice', 'YesNo', 'Checkbox'] as const
 
+function isBefore(a: [number, number], b: [number, number]) {
+  return a[0] < b[0] || (a[0] === b[0] && a[1] < b[1])
+}
+
+// An option being edited; id is null until the database assigns one, so
+// rows are keyed by a client-side key instead
+interface OptionDraft {
+  key: string
+  id: string | null
+  label: string
+  savedLabel: string | null
+  aliases?: string[]
+}
+
 export default function QuestionsManager() {
   const { questionnaireId, sectionId } = useParams<{ questionnaireId: string; sectionId: string }>()
   const [questions, setQuestions] = useState<Question[]>([])
   const [sectionTitle, setSectionTitle] = useState('')
+  const [sectionOrder, setSectionOrder] = useState(0)
+  const [version, setVersion] = useState({ version: '', status: 'draft' })
+  const [allQuestions, setAllQuestions] = useState<OrderedQuestion[]>([])
   const [loading, setLoading] = useState(true)
   const [modalOpen, setModalOpen] = useState(false)
   const [editing, setEditing] = useState<Question | null>(null)
   const [form, setForm] = useState({
     question_text: '',
     question_type: 'YesNo' as Question['question_type'],
-    options: '',
+    options: [] as OptionDraft[],
     order: 1,
+    condition_rule: null as ConditionRule | null,
   })
+  const [conditionError, setConditionError] = useState<string | null>(null)
   const [saving, setSaving] = useState(false)
+  const [formError, setFormError] = useState<string | null>(null)
 
   const fetchAll = async () => {
-    const [{ data: sec }, { data }] = await Promise.all([
-      supabase.from('sections').select('title').eq('id', sectionId).single(),
+    const [{ data: sec }, { data }, { data: allSections }] = await Promise.all([
+      supabase.from('sections').select('title, order, questionnaire:questionnaires(version, status)').eq('id', sectionId).single(),
       supabase.from('questions').select('*').eq('section_id', sectionId).order('order'),
+      supabase
+        .from('sections')
+        .select('id, title, order, questions(id, question_text, question_type, options, order, condition_rule, condition_question_id, condition_answer)')
+        .eq('questionnaire_id', questionnaireId),
     ])
     setSectionTitle(sec?.title ?? '')
+    setSectionOrder(sec?.order ?? 0)
+    setVersion((sec?.questionnaire as unknown as { version: string; status: string } | null) ?? { version: '', status: 'draft' })
     setQuestions(data ?? [])
+
+    const ordered: OrderedQuestion[] = []
+    for (const s of (allSections as SectionWithQuestions[] | null) ?? []) {
+      for (const q of s.questions) {
+        ordered.push({ ...q, sectionId: s.id, sectionTitle: s.title, position: [s.order, q.order] })
+      }
+    }
+    ordered.sort((a, b) => (isBefore(a.position, b.position) ? -1 : isBefore(b.position, a.position) ? 1 : 0))
+    setAllQuestions(ordered)
     setLoading(false)
   }
 
@@ -46,9 +119,12 @@ export default function QuestionsManager() {
     setForm({
       question_text: '',
       question_type: 'YesNo',
-      options: '',
+      options: [],
       order: questions.length > 0 ? Math.max(...questions.map(q => q.order)) + 1 : 1,
+      condition_rule: null,
     })
+    setConditionError(null)
+    setFormError(null)
     setModalOpen(true)
   }
 
@@ -57,37 +133,120 @@ export default function QuestionsManager() {
     setForm({
       question_text: q.question_text,
       question_type: q.question_type,
-      options: q.options ? q.options.join('\n') : '',
+      // Yes/No defaults are not stored, so there is nothing to edit for them
+      options: q.options?.length
+        ? questionOptions(q).map((o) => ({ key: o.id, id: o.id, label: o.label, savedLabel: o.label, aliases: o.aliases }))
+        : [],
       order: q.order,
+      condition_rule: questionRule(q),
     })
+    setConditionError(null)
+    setFormError(null)
     setModalOpen(true)
   }
 
+  const questionsById = new Map(allQuestions.map((q) => [q.id, q]))
+  const formPosition: [number, number] = [sectionOrder, form.order]
+
+  // Only questions asked before this one can appear in its rule
+  const ruleCandidates = allQuestions
+    .filter((q) => q.id !== editing?.id && isBefore(q.position, formPosition))
+    .map((q) => ({ id: q.id, label: `[${q.sectionTitle}] ${q.question_text}`, options: optionLabels(q) }))
+
+  const validateCondition = (): string | null => {
+    if (conditionError) return conditionError
+    const rule = form.condition_rule
+    if (!rule) return null
+    if (ruleLeaves(rule).some((leaf) => !leaf.question_id || leaf.any_of.length === 0)) {
+      return 'Pick a question and at least one answer for every condition.'
+    }
+    for (const id of ruleQuestionIds(rule)) {
+      const parent = questionsById.get(id)
+      if (!parent) return 'The rule references a question that no longer exists.'
+      if (!isBefore(parent.position, formPosition)) {
+        return `"${parent.question_text}" must come before this question to be used in its rule.`
+      }
+    }
+    // Follow the referenced questions' own rules to catch cycles left by
+    // earlier reorderings
+    const seen = new Set<string>()
+    const pending = ruleQuestionIds(rule)
+    while (pending.length > 0) {
+      const id = pending.pop()!
+      if (id === editing?.id) return 'This rule would create a cycle.'
+      if (seen.has(id)) continue
+      seen.add(id)
+      const q = questionsById.get(id)
+      const parentRule = q ? questionRule(q) : null
+      if (parentRule) pending.push(...ruleQuestionIds(parentRule))
+    }
+    return null
+  }
+
+  const validateDependents = (): string | null => {
+    if (!editing) return null
+    const dependent = allQuestions.find((q) => {
+      const rule = questionRule(q)
+      return rule !== null && ruleQuestionIds(rule).includes(editing.id) && !isBefore(formPosition, q.position)
+    })
+    return dependent
+      ? `"${dependent.question_text}" depends on this question and must stay after it.`
+      : null
+  }
+
+  const questionLabel = (id: string) => {
+    const text = questionsById.get(id)?.question_text ?? 'Unknown question'
+    return `“${text.length > 60 ? `${text.slice(0, 57)}...` : text}”`
+  }
+
   const handleSave = async () => {
+    const validationError = validateCondition() ?? validateDependents()
+    if (validationError) {
+      setFormError(validationError)
+      return
+    }
+    const options = form.options
+      .map((o) => ({ ...o, label: o.label.trim() }))
+      .filter((o) => o.label)
+    const labels = options.map((o) => o.label)
+    const duplicate = labels.find((label, i) => labels.indexOf(label) !== i)
+    if (duplicate) {
+      setFormError(`"${duplicate}" is listed more than once.`)
+      return
+    }
+    setFormError(null)
     setSaving(true)
-    const optionsArray = form.options
-      .split('\n')
-      .map((o) => o.trim())
-      .filter(Boolean)
 
     const payload = {
       section_id: sectionId,
       question_text: form.question_text,
       question_type: form.question_type,
-      options: optionsArray.length > 0 ? optionsArray : null,
+      // New options go in as plain labels and get their id from the database
+      options: options.length > 0
+        ? options.map((o) => (o.id ? { id: o.id, label: o.label, aliases: o.aliases } : o.label))
+        : null,
       order: form.order,
+      condition_rule: form.condition_rule,
+      condition_question_id: null,
+      condition_answer: null,
     }
 
-    if (editing) {
-      await supabase.from('questions').update(payload).eq('id', editing.id)
-    } else {
-      await supabase.from('questions').insert(payload)
-    }
+    const { error } = editing
+      ? await supabase.from('questions').update(payload).eq('id', editing.id)
+      : await supabase.from('questions').insert(payload)
     setSaving(false)
+    if (error) {
+      setFormError(error.message)
+      return
+    }
     setModalOpen(false)
     fetchAll()
   }
 
+  const setOption = (index: number, label: string) => {
+    setForm({ ...form, options: form.options.map((o, i) => (i === index ? { ...o, label } : o)) })
+  }
+
   const handleDelete = async (id: string) => {
     if (!confirm('Delete this question?')) return
     await supabase.from('questions').delete().eq('id', id)
@@ -96,6 +255,9 @@ export default function QuestionsManager() {
 
   if (loading) return <div className="text-gray-500">Loading...</div>
 
+  // Only draft versions can be edited; the database rejects changes to the rest
+  const readOnly = version.status !== 'draft'
+
   return (
     <div>
       <div className="mb-2">
@@ -106,11 +268,19 @@ export default function QuestionsManager() {
           <h2 className="text-2xl font-bold text-gray-900">Questions</h2>
           <p className="text-sm text-gray-500">{sectionTitle}</p>
         </div>
-        <button onClick={openCreate} className="px-4 py-2 bg-blue-600 text-white text-sm font-medium rounded-lg hover:bg-blue-700">
-          + New Question
-        </button>
+        {!readOnly && (
+          <button onClick={openCreate} className="px-4 py-2 bg-blue-600 text-white text-sm font-medium rounded-lg hover:bg-blue-700">
+            + New Question
+          </button>
+        )}
       </div>
 
+      {readOnly && (
+        <div className="mb-4 px-4 py-3 rounded-lg bg-amber-50 border border-amber-200 text-sm text-amber-800">
+          Version {version.version} is {version.status} and read-only. Create a new draft version from Questionnaires to make changes.
+        </div>
+      )}
+
       <div className="bg-white rounded-xl shadow-sm overflow-hidden">
         <table className="w-full text-sm">
           <thead className="bg-gray-50 border-b">
@@ -127,8 +297,13 @@ export default function QuestionsManager() {
                 <td className="px-4 py-3 text-gray-500">{q.order}</td>
                 <td className="px-4 py-3">
                   <span className="font-medium text-gray-900">{q.question_text}</span>
-                  {q.options && (
-                    <p className="text-xs text-gray-400 mt-0.5">{q.options.length} options</p>
+                  {q.options && q.options.length > 0 && (
+                    <p className="text-xs text-gray-400 mt-0.5">{optionLabels(q).join(' · ')}</p>
+                  )}
+                  {questionRule(q) && (
+                    <p className="text-xs text-amber-700 mt-0.5">
+                      Shown if {describeRule(questionRule(q)!, questionLabel)}
+                    </p>
                   )}
                 </td>
                 <td className="px-4 py-3">
@@ -137,8 +312,12 @@ export default function QuestionsManager() {
                   </span>
                 </td>
                 <td className="px-4 py-3 text-right space-x-2">
-                  <button onClick={() => openEdit(q)} className="text-blue-600 hover:underline text-xs">Edit</button>
-                  <button onClick={() => handleDelete(q.id)} className="text-red-600 hover:underline text-xs">Delete</button>
+                  {!readOnly && (
+                    <>
+                      <button onClick={() => openEdit(q)} className="text-blue-600 hover:underline text-xs">Edit</button>
+                      <button onClick={() => handleDelete(q.id)} className="text-red-600 hover:underline text-xs">Delete</button>
+                    </>
+                  )}
                 </td>
               </tr>
             ))}
@@ -164,21 +343,61 @@ export default function QuestionsManager() {
             </select>
           </div>
           <div>
-            <label className="block text-sm font-medium text-gray-700 mb-1">Options (one per line)</label>
-            <textarea
-              value={form.options}
-              onChange={(e) => setForm({ ...form, options: e.target.value })}
-              rows={4}
-              placeholder={form.question_type === 'YesNo' ? 'Yes\nNo' : 'Option 1\nOption 2\nOption 3'}
-              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
-            />
-            <p className="text-xs text-gray-400 mt-1">For YesNo type, enter "Yes" and "No" on separate lines</p>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Options</label>
+            <div className="space-y-2">
+              {form.options.map((o, i) => (
+                <div key={o.key}>
+                  <div className="flex items-center gap-2">
+                    <input
+                      value={o.label}
+                      onChange={(e) => setOption(i, e.target.value)}
+                      placeholder={`Option ${i + 1}`}
+                      className="flex-1 px-3 py-1.5 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 text-sm"
+                    />
+                    <button
+                      onClick={() => setForm({ ...form, options: form.options.filter((_, j) => j !== i) })}
+                      className="text-gray-400 hover:text-red-600 text-lg leading-none"
+                      title="Remove option"
+                    >
+                      &times;
+                    </button>
+                  </div>
+                  {o.savedLabel !== null && o.label.trim() && o.label.trim() !== o.savedLabel && (
+                    <p className="text-xs text-blue-700 mt-0.5">
+                      Renamed from “{o.savedLabel}”. Matrix mappings and conditions follow the new wording.
+                    </p>
+                  )}
+                </div>
+              ))}
+            </div>
+            <button
+              onClick={() => setForm({ ...form, options: [...form.options, { key: crypto.randomUUID(), id: null, label: '', savedLabel: null }] })}
+              className="mt-2 text-blue-600 hover:underline text-xs"
+            >
+              + Add option
+            </button>
+            <p className="text-xs text-gray-400 mt-1">YesNo questions without options offer "Yes" and "No"</p>
           </div>
           <div>
             <label className="block text-sm font-medium text-gray-700 mb-1">Order</label>
             <input type="number" value={form.order} onChange={(e) => setForm({ ...form, order: parseInt(e.target.value) || 1 })}
               className="w-24 px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500" />
           </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Show only if</label>
+            <ConditionRuleEditor
+              value={form.condition_rule}
+              candidates={ruleCandidates}
+              onChange={(rule, error) => {
+                setForm({ ...form, condition_rule: rule })
+                setConditionError(error)
+              }}
+            />
+            <p className="text-xs text-gray-400 mt-1">Leave empty to always show the question. Only questions asked before this one can be used.</p>
+          </div>
+          {formError && (
+            <p className="text-sm text-red-600 bg-red-50 p-2 rounded">{formError}</p>
+          )}
           <div className="flex justify-end gap-2 pt-2">
             <button onClick={() => setModalOpen(false)} className="px-4 py-2 border border-gray-300 rounded-lg text-sm hover:bg-gray-50">Cancel</button>
             <button onClick={handleSave} disabled={!form.question_text || saving}
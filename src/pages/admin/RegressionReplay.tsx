@@ -0,0 +1,463 @@
+import { useEffect, useMemo, useState } from 'react'
+import { Link } from 'react-router-dom'
+import { supabase } from '../../supabaseClient'
+import MatrixGrid, { type MatrixChanges } from '../../components/admin/MatrixGrid'
+import {
+  rankUseCases,
+  scoreResponses,
+  scoringSettings,
+  type ResponseRow,
+  type ScoredUseCase,
+  type ScoringSettings,
+} from '../../../supabase/functions/_shared/scoring.ts'
+import type { ConditionRule } from '../../../supabase/functions/_shared/conditions.ts'
+import type { StoredOptions } from '../../../supabase/functions/_shared/options.ts'
+import {
+  questionIdMap,
+  remapResponses,
+  type VersionQuestion,
+} from '../../../supabase/functions/_shared/versionMapping.ts'
+
+interface MatrixEntry {
+  id: string
+  question_id: string
+  use_case_id: string
+  triggering_answer: string
+  weight: number
+}
+
+interface Question {
+  id: string
+  question_text: string
+  question_type: 'MultipleChoice' | 'YesNo' | 'Checkbox'
+  options: StoredOptions
+  order: number
+  condition_rule: ConditionRule | null
+  condition_question_id: string | null
+  condition_answer: string | null
+  section: { title: string } | null
+  decision_matrix: MatrixEntry[]
+}
+
+interface Section {
+  id: string
+  title: string
+  order: number
+  questions: Omit<Question, 'section'>[]
+}
+
+interface QuestionnaireOption {
+  id: string
+  version: string
+  status: 'draft' | 'review' | 'published' | 'archived'
+  scoring_settings: unknown
+}
+
+interface UseCase {
+  id: string
+  title: string
+  category: string
+  sub_category: string
+  engagement_category: string | null
+  use_case_number: number | null
+}
+
+interface ReplaySubmission {
+  id: string
+  full_name: string
+  company_name: string
+  created_at: string
+  responses: ResponseRow[]
+}
+
+interface SubmissionDiff {
+  submission: ReplaySubmission
+  current: ScoredUseCase<UseCase>[]
+  draft: ScoredUseCase<UseCase>[]
+  added: UseCase[]
+  dropped: UseCase[]
+  moved: { useCase: UseCase; from: number; to: number }[]
+  // Phase (engagement category) -> [current count, draft count], only where they differ
+  phases: [string, number, number][]
+}
+
+const phaseLabels: Record<string, string> = { A: 'Phase 1', B: 'Phase 2', C: 'Phase 3' }
+
+function matrixKey(e: Pick<MatrixEntry, 'question_id' | 'triggering_answer' | 'use_case_id'>) {
+  return `${e.question_id}\u0000${e.triggering_answer}\u0000${e.use_case_id}`
+}
+
+async function fetchVersionQuestions(questionnaireId: string): Promise<Question[]> {
+  const { data: sectionData } = await supabase
+    .from('sections')
+    .select('id, title, order, questions(id, question_text, question_type, options, order, condition_rule, condition_question_id, condition_answer, decision_matrix(id, question_id, use_case_id, triggering_answer, weight))')
+    .eq('questionnaire_id', questionnaireId)
+    .order('order')
+  const sections = (sectionData as unknown as Section[]) ?? []
+  return sections.flatMap((s) =>
+    [...s.questions].sort((a, b) => a.order - b.order).map((q) => ({ ...q, section: { title: s.title } }))
+  )
+}
+
+function versionQuestion(q: Question): VersionQuestion {
+  return { id: q.id, question_text: q.question_text, section_title: q.section?.title ?? '' }
+}
+
+function phaseCounts(ranked: UseCase[]) {
+  const counts = new Map<string, number>()
+  for (const uc of ranked) {
+    const key = uc.engagement_category ?? '—'
+    counts.set(key, (counts.get(key) ?? 0) + 1)
+  }
+  return counts
+}
+
+function diffRankings(
+  submission: ReplaySubmission,
+  current: ScoredUseCase<UseCase>[],
+  draft: ScoredUseCase<UseCase>[],
+): SubmissionDiff {
+  const currentRank = new Map(current.map((uc, i) => [uc.id, i + 1]))
+  const draftRank = new Map(draft.map((uc, i) => [uc.id, i + 1]))
+
+  const currentPhases = phaseCounts(current)
+  const draftPhases = phaseCounts(draft)
+  const phases: [string, number, number][] = [...new Set([...currentPhases.keys(), ...draftPhases.keys()])]
+    .sort()
+    .map((key): [string, number, number] => [key, currentPhases.get(key) ?? 0, draftPhases.get(key) ?? 0])
+    .filter(([, before, after]) => before !== after)
+
+  return {
+    submission,
+    current,
+    draft,
+    added: draft.filter((uc) => !currentRank.has(uc.id)),
+    dropped: current.filter((uc) => !draftRank.has(uc.id)),
+    moved: draft
+      .filter((uc) => currentRank.has(uc.id) && currentRank.get(uc.id) !== draftRank.get(uc.id))
+      .map((uc) => ({ useCase: uc, from: currentRank.get(uc.id)!, to: draftRank.get(uc.id)! })),
+    phases,
+  }
+}
+
+function isChanged(d: SubmissionDiff) {
+  return d.added.length > 0 || d.dropped.length > 0 || d.moved.length > 0
+}
+
+function labelOf(uc: UseCase) {
+  return `${uc.use_case_number ? `#${uc.use_case_number} ` : ''}${uc.title}`
+}
+
+export default function RegressionReplay() {
+  const [questionnaires, setQuestionnaires] = useState<QuestionnaireOption[]>([])
+  const [questionnaireId, setQuestionnaireId] = useState('')
+  const [live, setLive] = useState<{ id: string; questions: Question[]; settings: ScoringSettings } | null>(null)
+  const [questions, setQuestions] = useState<Question[]>([])
+  const [matrix, setMatrix] = useState<MatrixEntry[]>([])
+  const [draft, setDraft] = useState<MatrixEntry[]>([])
+  // MatrixGrid keeps its own copy of the entries, so resetting remounts it
+  const [gridKey, setGridKey] = useState(0)
+  const [useCases, setUseCases] = useState<UseCase[]>([])
+  const [loading, setLoading] = useState(true)
+
+  const [range, setRange] = useState({ from: '', to: '', limit: 100 })
+  const [submissions, setSubmissions] = useState<ReplaySubmission[] | null>(null)
+  const [running, setRunning] = useState(false)
+  const [showUnchanged, setShowUnchanged] = useState(false)
+
+  // Past submissions are always scored twice: as the live version scores
+  // them, and as the selected version would once their answers are matched
+  // onto its questions
+  useEffect(() => {
+    async function fetchVersions() {
+      const [{ data }, { data: ucData }] = await Promise.all([
+        supabase
+          .from('questionnaires')
+          .select('id, version, status, scoring_settings')
+          .order('created_at', { ascending: false }),
+        supabase.from('use_cases').select('id, title, category, sub_category, engagement_category, use_case_number').order('title'),
+      ])
+      const items: QuestionnaireOption[] = data ?? []
+      const published = items.find((q) => q.status === 'published')
+      const preferred = items.find((q) => q.status === 'draft') ?? published ?? items[0]
+
+      if (published) {
+        setLive({
+          id: published.id,
+          questions: await fetchVersionQuestions(published.id),
+          settings: scoringSettings(published.scoring_settings),
+        })
+      }
+      setQuestionnaires(items)
+      setUseCases(ucData ?? [])
+      setQuestionnaireId(preferred?.id ?? '')
+      if (!preferred) setLoading(false)
+    }
+    fetchVersions()
+  }, [])
+
+  useEffect(() => {
+    async function fetchVersion() {
+      if (!questionnaireId) return
+      const versionQuestions = await fetchVersionQuestions(questionnaireId)
+      const rows = versionQuestions.flatMap((q) => q.decision_matrix)
+      setQuestions(versionQuestions)
+      setMatrix(rows)
+      setDraft(rows)
+      setGridKey((k) => k + 1)
+      setSubmissions(null)
+      setLoading(false)
+    }
+    fetchVersion()
+  }, [questionnaireId])
+
+  const selectedVersion = questionnaires.find((q) => q.id === questionnaireId)
+  const settings = useMemo(() => scoringSettings(selectedVersion?.scoring_settings), [selectedVersion])
+  const idMap = useMemo(
+    () => questionIdMap((live?.questions ?? []).map(versionQuestion), questions.map(versionQuestion)),
+    [live, questions]
+  )
+
+  const draftSummary = useMemo(() => {
+    const current = new Map(matrix.map((e) => [matrixKey(e), e]))
+    const proposed = new Map(draft.map((e) => [matrixKey(e), e]))
+    let added = 0
+    let reweighted = 0
+    for (const [key, e] of proposed) {
+      const before = current.get(key)
+      if (!before) added++
+      else if (before.weight !== e.weight) reweighted++
+    }
+    const removed = [...current.keys()].filter((key) => !proposed.has(key)).length
+    return { added, reweighted, removed, total: added + reweighted + removed }
+  }, [matrix, draft])
+
+  const diffs = useMemo(() => {
+    if (!submissions || !live) return []
+    const liveMatrix = live.questions.flatMap((q) => q.decision_matrix)
+    return submissions.map((s) => diffRankings(
+      s,
+      rankUseCases(scoreResponses(s.responses, liveMatrix, live.questions, live.settings), useCases, live.settings),
+      rankUseCases(scoreResponses(remapResponses(s.responses, idMap), draft, questions, settings), useCases, settings),
+    ))
+  }, [submissions, live, idMap, draft, questions, useCases, settings])
+
+  const stats = useMemo(() => {
+    const count = Math.max(diffs.length, 1)
+    const covered = (key: 'current' | 'draft') => new Set(diffs.flatMap((d) => d[key].map((uc) => uc.id))).size
+    return {
+      changed: diffs.filter(isChanged).length,
+      avgCurrent: diffs.reduce((sum, d) => sum + d.current.length, 0) / count,
+      avgDraft: diffs.reduce((sum, d) => sum + d.draft.length, 0) / count,
+      coverageCurrent: covered('current'),
+      coverageDraft: covered('draft'),
+    }
+  }, [diffs])
+
+  const applyToDraft = async ({ inserts, updates, deletes }: MatrixChanges) => {
+    const updated = new Map(updates.map((e) => [e.id, e]))
+    setDraft((prev) => [
+      ...prev.filter((e) => !deletes.includes(e.id)).map((e) => updated.get(e.id) ?? e),
+      ...inserts.map((e) => ({ ...e, id: `draft-${crypto.randomUUID()}` })),
+    ])
+    return null
+  }
+
+  const resetDraft = () => {
+    setDraft(matrix)
+    setGridKey((k) => k + 1)
+  }
+
+  const runReplay = async () => {
+    if (!live) return
+    setRunning(true)
+    // Responses are embedded so the row limit applies to submissions, not answers
+    let query = supabase
+      .from('submissions')
+      .select('id, full_name, company_name, created_at, responses(question_id, answer)')
+      .eq('questionnaire_id', live.id)
+      .neq('status', 'draft')
+    if (range.from) query = query.gte('created_at', new Date(`${range.from}T00:00:00`).toISOString())
+    if (range.to) query = query.lte('created_at', new Date(`${range.to}T23:59:59.999`).toISOString())
+    const { data } = await query.order('created_at', { ascending: false }).limit(range.limit)
+    setSubmissions((data as unknown as ReplaySubmission[]) ?? [])
+    setRunning(false)
+  }
+
+  if (loading) return <div className="text-gray-500">Loading...</div>
+
+  if (!questionnaireId) {
+    return (
+      <div>
+        <h2 className="text-2xl font-bold text-gray-900 mb-6">Regression Replay</h2>
+        <p className="text-gray-500">No questionnaire versions yet.</p>
+      </div>
+    )
+  }
+
+  const shown = showUnchanged ? diffs : diffs.filter(isChanged)
+
+  return (
+    <div>
+      <div className="flex items-start justify-between gap-4 mb-6">
+        <div>
+          <h2 className="text-2xl font-bold text-gray-900">Regression Replay</h2>
+          <p className="text-sm text-gray-500 mt-1">
+            Re-score past submissions with a version's decision matrix, edited below, to compare their roadmaps with the live version's. Nothing here is saved.
+          </p>
+        </div>
+        <select
+          value={questionnaireId}
+          onChange={(e) => setQuestionnaireId(e.target.value)}
+          className="px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 text-sm bg-white"
+        >
+          {questionnaires.map((q) => <option key={q.id} value={q.id}>v{q.version} ({q.status})</option>)}
+        </select>
+      </div>
+
+      {!live && (
+        <div className="mb-4 px-4 py-3 rounded-lg bg-amber-50 border border-amber-200 text-sm text-amber-800">
+          No version has been published yet, so there are no submissions to replay.
+        </div>
+      )}
+
+      <div className="bg-white rounded-xl shadow-sm p-6 mb-6">
+        <div className="flex items-center justify-between mb-4">
+          <h3 className="text-lg font-semibold text-gray-900">Draft Matrix</h3>
+          <div className="flex items-center gap-3 text-sm">
+            <span className="text-gray-500">
+              {draftSummary.total === 0
+                ? `Same as v${selectedVersion?.version}'s matrix`
+                : `${draftSummary.added} added, ${draftSummary.reweighted} reweighted, ${draftSummary.removed} removed`}
+            </span>
+            <button
+              onClick={resetDraft}
+              disabled={draftSummary.total === 0}
+              className="px-3 py-1.5 border border-gray-300 rounded-lg hover:bg-gray-50 disabled:opacity-50"
+            >
+              Reset Draft
+            </button>
+          </div>
+        </div>
+        <MatrixGrid key={gridKey} entries={draft} questions={questions} useCases={useCases} onSave={applyToDraft} saveLabel="Apply to Draft" />
+      </div>
+
+      <div className="flex flex-wrap items-end gap-3 mb-6">
+        <label className="text-xs text-gray-500">
+          From
+          <input
+            type="date"
+            value={range.from}
+            onChange={(e) => setRange({ ...range, from: e.target.value })}
+            className="block px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 text-sm"
+          />
+        </label>
+        <label className="text-xs text-gray-500">
+          To
+          <input
+            type="date"
+            value={range.to}
+            onChange={(e) => setRange({ ...range, to: e.target.value })}
+            className="block px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 text-sm"
+          />
+        </label>
+        <label className="text-xs text-gray-500">
+          Most recent
+          <select
+            value={range.limit}
+            onChange={(e) => setRange({ ...range, limit: parseInt(e.target.value) })}
+            className="block px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 text-sm bg-white"
+          >
+            {[50, 100, 250, 500].map((n) => <option key={n} value={n}>{n} submissions</option>)}
+          </select>
+        </label>
+        <button
+          onClick={runReplay}
+          disabled={running || !live}
+          className="px-4 py-2 bg-blue-600 text-white text-sm font-medium rounded-lg hover:bg-blue-700 disabled:opacity-50"
+        >
+          {running ? 'Replaying...' : 'Run Replay'}
+        </button>
+      </div>
+
+      {submissions && (
+        <>
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-6">
+            {[
+              ['Submissions replayed', `${diffs.length}`],
+              ['Roadmaps changed', `${stats.changed}`],
+              ['Avg. recommendations', `${stats.avgCurrent.toFixed(1)} → ${stats.avgDraft.toFixed(1)}`],
+              ['Use case coverage', `${stats.coverageCurrent} → ${stats.coverageDraft} of ${useCases.length}`],
+            ].map(([label, value]) => (
+              <div key={label} className="bg-white rounded-xl shadow-sm p-4">
+                <p className="text-xs text-gray-500">{label}</p>
+                <p className="text-xl font-bold text-gray-900 mt-1">{value}</p>
+              </div>
+            ))}
+          </div>
+
+          <div className="bg-white rounded-xl shadow-sm overflow-hidden">
+            <div className="px-6 py-4 border-b flex items-center justify-between">
+              <h3 className="text-lg font-semibold text-gray-900">Per-Submission Changes</h3>
+              <label className="flex items-center gap-2 text-sm text-gray-600">
+                <input
+                  type="checkbox"
+                  checked={showUnchanged}
+                  onChange={(e) => setShowUnchanged(e.target.checked)}
+                  className="h-4 w-4 text-blue-600 rounded"
+                />
+                Show unchanged
+              </label>
+            </div>
+            <table className="w-full text-sm">
+              <thead className="bg-gray-50 border-b">
+                <tr>
+                  <th className="text-left px-4 py-3 font-medium text-gray-600 w-56">Submission</th>
+                  <th className="text-left px-4 py-3 font-medium text-gray-600">Added</th>
+                  <th className="text-left px-4 py-3 font-medium text-gray-600">Dropped</th>
+                  <th className="text-left px-4 py-3 font-medium text-gray-600">Re-ranked</th>
+                  <th className="text-left px-4 py-3 font-medium text-gray-600 w-40">Phases</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y">
+                {shown.map((d) => (
+                  <tr key={d.submission.id} className="hover:bg-gray-50 align-top">
+                    <td className="px-4 py-3">
+                      <Link to={`/admin/submissions/${d.submission.id}`} className="text-blue-600 hover:underline font-medium">
+                        {d.submission.company_name}
+                      </Link>
+                      <p className="text-xs text-gray-500 mt-0.5">
+                        {d.submission.full_name} &middot; {d.current.length} → {d.draft.length}
+                      </p>
+                    </td>
+                    <td className="px-4 py-3 text-xs text-green-700">
+                      {d.added.map((uc) => <p key={uc.id}>{labelOf(uc)}</p>)}
+                    </td>
+                    <td className="px-4 py-3 text-xs text-red-700">
+                      {d.dropped.map((uc) => <p key={uc.id}>{labelOf(uc)}</p>)}
+                    </td>
+                    <td className="px-4 py-3 text-xs text-gray-700">
+                      {d.moved.map((m) => (
+                        <p key={m.useCase.id}>{labelOf(m.useCase)} <span className="text-gray-400">#{m.from} → #{m.to}</span></p>
+                      ))}
+                    </td>
+                    <td className="px-4 py-3 text-xs text-gray-700">
+                      {d.phases.map(([key, before, after]) => (
+                        <p key={key}>{phaseLabels[key] ?? key}: {before} → {after}</p>
+                      ))}
+                    </td>
+                  </tr>
+                ))}
+                {shown.length === 0 && (
+                  <tr><td colSpan={5} className="px-4 py-8 text-center text-gray-400">
+                    {diffs.length === 0 ? 'No submissions in this range' : 'No roadmap changes'}
+                  </td></tr>
+                )}
+              </tbody>
+            </table>
+          </div>
+        </>
+      )}
+    </div>
+  )
+}
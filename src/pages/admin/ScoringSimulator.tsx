@@ -0,0 +1,322 @@
+import { useEffect, useMemo, useState } from 'react'
+import { supabase } from '../../supabaseClient'
+import {
+  rankUseCases,
+  scoreResponses,
+  scoringSettings,
+  type MatrixRow,
+} from '../../../supabase/functions/_shared/scoring.ts'
+import { createVisibility, type Answers, type ConditionRule } from '../../../supabase/functions/_shared/conditions.ts'
+import { optionLabels, type StoredOptions } from '../../../supabase/functions/_shared/options.ts'
+import {
+  questionIdMap,
+  remapResponses,
+  type VersionQuestion,
+} from '../../../supabase/functions/_shared/versionMapping.ts'
+
+interface Question {
+  id: string
+  question_text: string
+  question_type: 'MultipleChoice' | 'YesNo' | 'Checkbox'
+  options: StoredOptions
+  order: number
+  condition_rule: ConditionRule | null
+  condition_question_id: string | null
+  condition_answer: string | null
+  decision_matrix: MatrixRow[]
+}
+
+interface Section {
+  id: string
+  title: string
+  order: number
+  questions: Question[]
+}
+
+interface QuestionnaireOption {
+  id: string
+  version: string
+  status: 'draft' | 'review' | 'published' | 'archived'
+  scoring_settings: unknown
+}
+
+interface UseCase {
+  id: string
+  title: string
+  sub_category: string
+  engagement_category: string | null
+  use_case_number: number | null
+}
+
+interface SubmissionOption {
+  id: string
+  full_name: string
+  company_name: string
+  created_at: string
+}
+
+function versionQuestions(sections: Pick<Section, 'title' | 'questions'>[]): VersionQuestion[] {
+  return sections.flatMap((s) => s.questions.map((q) => ({ id: q.id, question_text: q.question_text, section_title: s.title })))
+}
+
+const engagementBadge: Record<string, { bg: string; text: string }> = {
+  A: { bg: 'bg-green-100', text: 'text-green-800' },
+  B: { bg: 'bg-blue-100', text: 'text-blue-800' },
+  C: { bg: 'bg-orange-100', text: 'text-orange-800' },
+}
+
+export default function ScoringSimulator() {
+  const [questionnaires, setQuestionnaires] = useState<QuestionnaireOption[]>([])
+  const [questionnaireId, setQuestionnaireId] = useState('')
+  const [liveQuestions, setLiveQuestions] = useState<VersionQuestion[]>([])
+  const [sections, setSections] = useState<Section[]>([])
+  const [useCases, setUseCases] = useState<UseCase[]>([])
+  const [submissions, setSubmissions] = useState<SubmissionOption[]>([])
+  const [answers, setAnswers] = useState<Answers>({})
+  const [loadedFrom, setLoadedFrom] = useState('')
+  const [loading, setLoading] = useState(true)
+
+  // Submissions always come from the live version; their answers are matched
+  // onto the version being simulated, usually a draft that is not live yet
+  useEffect(() => {
+    async function fetchVersions() {
+      const [{ data }, { data: ucData }] = await Promise.all([
+        supabase
+          .from('questionnaires')
+          .select('id, version, status, scoring_settings')
+          .order('created_at', { ascending: false }),
+        supabase.from('use_cases').select('id, title, sub_category, engagement_category, use_case_number'),
+      ])
+      const items: QuestionnaireOption[] = data ?? []
+      const live = items.find((q) => q.status === 'published')
+      const preferred = items.find((q) => q.status === 'draft') ?? live ?? items[0]
+
+      if (live) {
+        const [{ data: liveSections }, { data: subData }] = await Promise.all([
+          supabase.from('sections').select('title, questions(id, question_text)').eq('questionnaire_id', live.id),
+          supabase
+            .from('submissions')
+            .select('id, full_name, company_name, created_at')
+            .eq('questionnaire_id', live.id)
+            .neq('status', 'draft')
+            .order('created_at', { ascending: false })
+            .limit(100),
+        ])
+        setLiveQuestions(versionQuestions((liveSections as unknown as Section[]) ?? []))
+        setSubmissions(subData ?? [])
+      }
+      setQuestionnaires(items)
+      setUseCases(ucData ?? [])
+      setQuestionnaireId(preferred?.id ?? '')
+      if (!preferred) setLoading(false)
+    }
+    fetchVersions()
+  }, [])
+
+  useEffect(() => {
+    async function fetchVersion() {
+      if (!questionnaireId) return
+      const { data: sectionData } = await supabase
+        .from('sections')
+        .select('id, title, order, questions(id, question_text, question_type, options, order, condition_rule, condition_question_id, condition_answer, decision_matrix(question_id, use_case_id, triggering_answer, weight))')
+        .eq('questionnaire_id', questionnaireId)
+        .order('order')
+      setSections(((sectionData as unknown as Section[]) ?? []).map((s) => ({
+        ...s,
+        questions: [...s.questions].sort((a, b) => a.order - b.order),
+      })))
+      setLoading(false)
+    }
+    fetchVersion()
+  }, [questionnaireId])
+
+  const selectedVersion = questionnaires.find((q) => q.id === questionnaireId)
+  const settings = useMemo(() => scoringSettings(selectedVersion?.scoring_settings), [selectedVersion])
+
+  const changeVersion = (id: string) => {
+    setQuestionnaireId(id)
+    setAnswers({})
+    setLoadedFrom('')
+  }
+
+  const questions = useMemo(() => sections.flatMap((s) => s.questions), [sections])
+  const questionsById = useMemo(() => new Map(questions.map((q) => [q.id, q])), [questions])
+  const isVisible = useMemo(() => createVisibility(questions, answers), [questions, answers])
+
+  const ranked = useMemo(() => {
+    const responses = Object.entries(answers)
+      .filter((entry): entry is [string, string | string[]] => {
+        const answer = entry[1]
+        return Array.isArray(answer) ? answer.length > 0 : !!answer
+      })
+      .map(([question_id, answer]) => ({ question_id, answer }))
+    const matrix = questions.flatMap((q) => q.decision_matrix)
+    return rankUseCases(scoreResponses(responses, matrix, questions, settings), useCases, settings)
+  }, [answers, questions, useCases, settings])
+
+  const loadSubmission = async (submissionId: string) => {
+    setLoadedFrom(submissionId)
+    if (!submissionId) return
+    const { data } = await supabase
+      .from('responses')
+      .select('question_id, answer')
+      .eq('submission_id', submissionId)
+    const idMap = questionIdMap(liveQuestions, versionQuestions(sections))
+    setAnswers(Object.fromEntries(remapResponses(data ?? [], idMap).map((r) => [r.question_id, r.answer])))
+  }
+
+  const setAnswer = (questionId: string, answer: string | string[]) => {
+    setAnswers((prev) => ({ ...prev, [questionId]: answer }))
+  }
+
+  const toggleCheckbox = (questionId: string, option: string) => {
+    const current = answers[questionId]
+    const selected = Array.isArray(current) ? current : []
+    setAnswer(questionId, selected.includes(option) ? selected.filter((a) => a !== option) : [...selected, option])
+  }
+
+  if (loading) return <div className="text-gray-500">Loading...</div>
+
+  if (!questionnaireId) {
+    return (
+      <div>
+        <h2 className="text-2xl font-bold text-gray-900 mb-6">Scoring Simulator</h2>
+        <p className="text-gray-500">No questionnaire versions yet.</p>
+      </div>
+    )
+  }
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-6">
+        <h2 className="text-2xl font-bold text-gray-900">Scoring Simulator</h2>
+        <div className="flex gap-2">
+          <select
+            value={questionnaireId}
+            onChange={(e) => changeVersion(e.target.value)}
+            className="px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 text-sm bg-white"
+          >
+            {questionnaires.map((q) => (
+              <option key={q.id} value={q.id}>v{q.version} ({q.status})</option>
+            ))}
+          </select>
+          <select
+            value={loadedFrom}
+            onChange={(e) => loadSubmission(e.target.value)}
+            className="w-72 px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 text-sm bg-white"
+          >
+            <option value="">Load answers from a live submission...</option>
+            {submissions.map((s) => (
+              <option key={s.id} value={s.id}>
+                {s.company_name} — {s.full_name} ({new Date(s.created_at).toLocaleDateString()})
+              </option>
+            ))}
+          </select>
+          <button
+            onClick={() => { setAnswers({}); setLoadedFrom('') }}
+            className="px-4 py-2 border border-gray-300 bg-white text-gray-700 text-sm font-medium rounded-lg hover:bg-gray-50"
+          >
+            Clear
+          </button>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6 items-start">
+        <div className="space-y-4">
+          {sections.map((section) => (
+            <div key={section.id} className="bg-white rounded-xl shadow-sm p-4">
+              <h3 className="font-semibold text-gray-900 mb-3">{section.title}</h3>
+              <div className="space-y-4">
+                {section.questions.map((q) => {
+                  const visible = isVisible(q.id)
+                  const options = optionLabels(q)
+                  const answer = answers[q.id]
+                  return (
+                    <div key={q.id} className={visible ? '' : 'opacity-40'}>
+                      <p className="text-sm text-gray-800 mb-1.5">
+                        {q.question_text}
+                        {!visible && <span className="ml-2 text-xs text-gray-500">(hidden — not scored)</span>}
+                      </p>
+                      {q.question_type === 'Checkbox' ? (
+                        <div className="flex flex-wrap gap-x-4 gap-y-1">
+                          {options.map((opt) => (
+                            <label key={opt} className="flex items-center gap-1.5 text-xs text-gray-700">
+                              <input
+                                type="checkbox"
+                                checked={Array.isArray(answer) && answer.includes(opt)}
+                                onChange={() => toggleCheckbox(q.id, opt)}
+                                className="h-3.5 w-3.5 text-blue-600 rounded"
+                              />
+                              {opt}
+                            </label>
+                          ))}
+                        </div>
+                      ) : (
+                        <select
+                          value={typeof answer === 'string' ? answer : ''}
+                          onChange={(e) => setAnswer(q.id, e.target.value)}
+                          className="w-full px-3 py-1.5 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 text-sm"
+                        >
+                          <option value="">No answer</option>
+                          {options.map((opt) => <option key={opt} value={opt}>{opt}</option>)}
+                        </select>
+                      )}
+                    </div>
+                  )
+                })}
+              </div>
+            </div>
+          ))}
+        </div>
+
+        <div className="bg-white rounded-xl shadow-sm overflow-hidden lg:sticky lg:top-6">
+          <div className="px-6 py-4 border-b">
+            <h3 className="text-lg font-semibold text-gray-900">
+              Recommended Use Cases <span className="text-sm font-normal text-gray-500">({ranked.length})</span>
+            </h3>
+            <p className="text-xs text-gray-500 mt-0.5">
+              Score ≥ {settings.min_score}
+              {settings.min_percent > 0 && ` and ≥ ${settings.min_percent}% of max`}
+              {settings.top_n_per_phase !== null && ` · top ${settings.top_n_per_phase} per phase`}
+              {` · ranked by ${settings.ranking === 'normalized' ? 'score / max score' : 'total weight'}`}
+            </p>
+          </div>
+          <div className="divide-y max-h-[80vh] overflow-y-auto">
+            {ranked.map((uc, idx) => (
+              <details key={uc.id} className="px-4 py-3">
+                <summary className="flex items-center gap-3 cursor-pointer text-sm">
+                  <span className="w-6 text-gray-500">{idx + 1}</span>
+                  <span className="flex-1 text-gray-900">
+                    {uc.use_case_number ? `#${uc.use_case_number} — ` : ''}{uc.title}
+                  </span>
+                  {uc.engagement_category && (
+                    <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${engagementBadge[uc.engagement_category]?.bg ?? 'bg-gray-100'} ${engagementBadge[uc.engagement_category]?.text ?? 'text-gray-700'}`}>
+                      Cat {uc.engagement_category}
+                    </span>
+                  )}
+                  <span className="w-14 text-right font-medium text-gray-900">
+                    {uc.score}<span className="text-xs font-normal text-gray-400">/{uc.max_score}</span>
+                  </span>
+                </summary>
+                <table className="w-full text-xs mt-2">
+                  <tbody className="divide-y">
+                    {uc.contributions.map((c, i) => (
+                      <tr key={i}>
+                        <td className="py-1.5 pr-2 text-gray-600">{questionsById.get(c.question_id)?.question_text ?? 'Unknown question'}</td>
+                        <td className="py-1.5 pr-2 text-gray-900 font-medium">{c.answer}</td>
+                        <td className="py-1.5 text-right text-gray-900 w-10">+{c.weight}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </details>
+            ))}
+            {ranked.length === 0 && (
+              <p className="px-6 py-8 text-center text-gray-400 text-sm">No use cases pass the scoring thresholds</p>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -15,6 +15,7 @@ export default function SectionsManager() {
   const { questionnaireId } = useParams<{ questionnaireId: string }>()
   const [sections, setSections] = useState<Section[]>([])
   const [qTitle, setQTitle] = useState('')
+  const [version, setVersion] = useState({ version: '', status: 'draft' })
   const [loading, setLoading] = useState(true)
   const [modalOpen, setModalOpen] = useState(false)
   const [editing, setEditing] = useState<Section | null>(null)
@@ -23,10 +24,11 @@ export default function SectionsManager() {
 
   const fetchAll = async () => {
     const [{ data: q }, { data }] = await Promise.all([
-      supabase.from('questionnaires').select('title').eq('id', questionnaireId).single(),
+      supabase.from('questionnaires').select('title, version, status').eq('id', questionnaireId).single(),
       supabase.from('sections').select('*').eq('questionnaire_id', questionnaireId).order('order'),
     ])
     setQTitle(q?.title ?? '')
+    setVersion({ version: q?.version ?? '', status: q?.status ?? 'draft' })
     setSections(data ?? [])
     setLoading(false)
   }
@@ -71,6 +73,9 @@ export default function SectionsManager() {
 
   if (loading) return <div className="text-gray-500">Loading...</div>
 
+  // Only draft versions can be edited; the database rejects changes to the rest
+  const readOnly = version.status !== 'draft'
+
   return (
     <div>
       <div className="mb-2">
@@ -81,11 +86,19 @@ export default function SectionsManager() {
           <h2 className="text-2xl font-bold text-gray-900">Sections</h2>
           <p className="text-sm text-gray-500">{qTitle}</p>
         </div>
-        <button onClick={openCreate} className="px-4 py-2 bg-blue-600 text-white text-sm font-medium rounded-lg hover:bg-blue-700">
-          + New Section
-        </button>
+        {!readOnly && (
+          <button onClick={openCreate} className="px-4 py-2 bg-blue-600 text-white text-sm font-medium rounded-lg hover:bg-blue-700">
+            + New Section
+          </button>
+        )}
       </div>
 
+      {readOnly && (
+        <div className="mb-4 px-4 py-3 rounded-lg bg-amber-50 border border-amber-200 text-sm text-amber-800">
+          Version {version.version} is {version.status} and read-only. Create a new draft version from Questionnaires to make changes.
+        </div>
+      )}
+
       <div className="bg-white rounded-xl shadow-sm overflow-hidden">
         <table className="w-full text-sm">
           <thead className="bg-gray-50 border-b">
@@ -106,8 +119,12 @@ export default function SectionsManager() {
                   {s.description && <p className="text-xs text-gray-500 mt-0.5">{s.description}</p>}
                 </td>
                 <td className="px-4 py-3 text-right space-x-2">
-                  <button onClick={() => openEdit(s)} className="text-blue-600 hover:underline text-xs">Edit</button>
-                  <button onClick={() => handleDelete(s.id)} className="text-red-600 hover:underline text-xs">Delete</button>
+                  {!readOnly && (
+                    <>
+                      <button onClick={() => openEdit(s)} className="text-blue-600 hover:underline text-xs">Edit</button>
+                      <button onClick={() => handleDelete(s.id)} className="text-red-600 hover:underline text-xs">Delete</button>
+                    </>
+                  )}
                 </td>
               </tr>
             ))}
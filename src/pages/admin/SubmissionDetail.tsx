@@ -0,0 +1,212 @@
+import { useEffect, useState } from 'react'
+import { useParams, Link } from 'react-router-dom'
+import { supabase } from '../../supabaseClient'
+import type { ScoredUseCase } from '../../../supabase/functions/_shared/scoring.ts'
+
+interface Submission {
+  id: string
+  full_name: string
+  email: string
+  company_name: string
+  job_title: string | null
+  country: string | null
+  status: 'draft' | 'completed' | 'processed' | 'emailed'
+  created_at: string
+  completed_at: string | null
+}
+
+interface ResponseRow {
+  question_id: string
+  answer: string | string[]
+  questions: {
+    question_text: string
+    order: number
+    sections: { title: string; order: number } | null
+  } | null
+}
+
+interface SubmissionResult {
+  recommended_use_cases: ScoredUseCase<{
+    id: string
+    title: string
+    category: string
+    sub_category: string
+    engagement_category: string | null
+    use_case_number: number | null
+  }>[]
+  matrix_version: string
+  computed_at: string
+  questionnaires: { version: string } | null
+}
+
+const engagementBadge: Record<string, { bg: string; text: string }> = {
+  A: { bg: 'bg-green-100', text: 'text-green-800' },
+  B: { bg: 'bg-blue-100', text: 'text-blue-800' },
+  C: { bg: 'bg-orange-100', text: 'text-orange-800' },
+}
+
+export default function SubmissionDetail() {
+  const { submissionId } = useParams<{ submissionId: string }>()
+  const [submission, setSubmission] = useState<Submission | null>(null)
+  const [responses, setResponses] = useState<ResponseRow[]>([])
+  const [result, setResult] = useState<SubmissionResult | null>(null)
+  const [loading, setLoading] = useState(true)
+
+  useEffect(() => {
+    async function fetchAll() {
+      const [{ data: sub }, { data: resp }, { data: res }] = await Promise.all([
+        supabase.from('submissions').select('*').eq('id', submissionId).single(),
+        supabase
+          .from('responses')
+          .select('question_id, answer, questions(question_text, order, sections(title, order))')
+          .eq('submission_id', submissionId),
+        supabase
+          .from('submission_results')
+          .select('recommended_use_cases, matrix_version, computed_at, questionnaires(version)')
+          .eq('submission_id', submissionId)
+          .maybeSingle(),
+      ])
+      setSubmission(sub)
+      setResponses((resp as unknown as ResponseRow[]) ?? [])
+      setResult(res as unknown as SubmissionResult | null)
+      setLoading(false)
+    }
+    fetchAll()
+  }, [submissionId])
+
+  if (loading) return <div className="text-gray-500">Loading...</div>
+
+  if (!submission) {
+    return (
+      <div>
+        <Link to="/admin/submissions" className="text-sm text-blue-600 hover:underline">&larr; Back to Submissions</Link>
+        <p className="mt-4 text-gray-500">Submission not found.</p>
+      </div>
+    )
+  }
+
+  // Group responses by section, in questionnaire order
+  const sorted = [...responses].sort((a, b) =>
+    (a.questions?.sections?.order ?? 0) - (b.questions?.sections?.order ?? 0) ||
+    (a.questions?.order ?? 0) - (b.questions?.order ?? 0)
+  )
+  const responsesBySection: [string, ResponseRow[]][] = []
+  for (const r of sorted) {
+    const title = r.questions?.sections?.title || 'Unknown Section'
+    const last = responsesBySection[responsesBySection.length - 1]
+    if (last && last[0] === title) last[1].push(r)
+    else responsesBySection.push([title, [r]])
+  }
+
+  const details: [string, string][] = [
+    ['Name', submission.full_name],
+    ['Email', submission.email],
+    ['Company', submission.company_name],
+    ['Job Title', submission.job_title || '—'],
+    ['Country', submission.country || '—'],
+    ['Status', submission.status],
+    ['Started', new Date(submission.created_at).toLocaleString()],
+    ['Completed', submission.completed_at ? new Date(submission.completed_at).toLocaleString() : '—'],
+  ]
+
+  return (
+    <div>
+      <div className="mb-2">
+        <Link to="/admin/submissions" className="text-sm text-blue-600 hover:underline">&larr; Back to Submissions</Link>
+      </div>
+      <div className="mb-6">
+        <h2 className="text-2xl font-bold text-gray-900">{submission.company_name}</h2>
+        <p className="text-sm text-gray-500">{submission.full_name}</p>
+      </div>
+
+      <div className="bg-white rounded-xl shadow-sm p-6 mb-6">
+        <h3 className="text-lg font-semibold text-gray-900 mb-4">Customer Details</h3>
+        <dl className="grid grid-cols-1 sm:grid-cols-2 gap-x-8 gap-y-3 text-sm">
+          {details.map(([label, value]) => (
+            <div key={label} className="flex gap-3">
+              <dt className="w-28 flex-shrink-0 font-medium text-gray-600">{label}</dt>
+              <dd className="text-gray-900">
+                {label === 'Email' ? <a href={`mailto:${value}`} className="text-blue-600 hover:underline">{value}</a> : value}
+              </dd>
+            </div>
+          ))}
+        </dl>
+      </div>
+
+      <div className="bg-white rounded-xl shadow-sm overflow-hidden mb-6">
+        <div className="px-6 py-4 border-b">
+          <h3 className="text-lg font-semibold text-gray-900">Recommended Roadmap</h3>
+          {result && (
+            <p className="text-xs text-gray-500 mt-0.5">
+              Computed {new Date(result.computed_at).toLocaleString()} &middot; matrix {result.matrix_version}
+              {result.questionnaires && <> of version {result.questionnaires.version}</>}
+            </p>
+          )}
+        </div>
+        {!result ? (
+          <p className="px-6 py-8 text-center text-gray-400 text-sm">Not processed yet</p>
+        ) : (
+          <table className="w-full text-sm">
+            <thead className="bg-gray-50 border-b">
+              <tr>
+                <th className="text-left px-4 py-3 font-medium text-gray-600 w-16">Rank</th>
+                <th className="text-left px-4 py-3 font-medium text-gray-600">Use Case</th>
+                <th className="text-left px-4 py-3 font-medium text-gray-600 w-36">Sub-Category</th>
+                <th className="text-left px-4 py-3 font-medium text-gray-600 w-28">Engagement</th>
+                <th className="text-right px-4 py-3 font-medium text-gray-600 w-20">Score</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y">
+              {result.recommended_use_cases.map((uc, idx) => (
+                <tr key={uc.id} className="hover:bg-gray-50">
+                  <td className="px-4 py-3 text-gray-500">{idx + 1}</td>
+                  <td className="px-4 py-3 text-gray-900">
+                    {uc.use_case_number ? `#${uc.use_case_number} — ` : ''}{uc.title}
+                  </td>
+                  <td className="px-4 py-3 text-gray-600 text-xs">{uc.sub_category}</td>
+                  <td className="px-4 py-3">
+                    {uc.engagement_category ? (
+                      <span className={`inline-block px-2 py-0.5 rounded-full text-xs font-medium ${engagementBadge[uc.engagement_category]?.bg ?? 'bg-gray-100'} ${engagementBadge[uc.engagement_category]?.text ?? 'text-gray-700'}`}>
+                        Cat {uc.engagement_category}
+                      </span>
+                    ) : (
+                      <span className="text-gray-400 text-xs">—</span>
+                    )}
+                  </td>
+                  <td className="px-4 py-3 text-right font-medium text-gray-900">{uc.score}</td>
+                </tr>
+              ))}
+              {result.recommended_use_cases.length === 0 && (
+                <tr><td colSpan={5} className="px-4 py-8 text-center text-gray-400">No use cases reached the minimum score</td></tr>
+              )}
+            </tbody>
+          </table>
+        )}
+      </div>
+
+      <div className="bg-white rounded-xl shadow-sm overflow-hidden">
+        <div className="px-6 py-4 border-b">
+          <h3 className="text-lg font-semibold text-gray-900">Captured Responses <span className="text-sm font-normal text-gray-500">({responses.length})</span></h3>
+        </div>
+        <table className="w-full text-sm">
+          <tbody className="divide-y">
+            {responsesBySection.map(([section, rows]) => [
+              <tr key={section}>
+                <td colSpan={2} className="px-4 py-2.5 bg-gray-50 font-semibold text-gray-700">{section}</td>
+              </tr>,
+              ...rows.map((r) => (
+                <tr key={r.question_id} className="hover:bg-gray-50">
+                  <td className="px-4 py-3 text-gray-600 w-1/2">{r.questions?.question_text || 'Unknown Question'}</td>
+                  <td className="px-4 py-3 text-gray-900 font-medium">{Array.isArray(r.answer) ? r.answer.join(', ') : r.answer}</td>
+                </tr>
+              )),
+            ])}
+            {responses.length === 0 && (
+              <tr><td colSpan={2} className="px-4 py-8 text-center text-gray-400">No responses captured</td></tr>
+            )}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  )
+}
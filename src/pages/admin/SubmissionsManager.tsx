@@ -0,0 +1,209 @@
+import { useEffect, useState } from 'react'
+import { Link } from 'react-router-dom'
+import { supabase } from '../../supabaseClient'
+
+interface Submission {
+  id: string
+  full_name: string
+  email: string
+  company_name: string
+  job_title: string | null
+  country: string | null
+  status: 'draft' | 'completed' | 'processed' | 'emailed'
+  created_at: string
+}
+
+const PAGE_SIZE = 25
+
+const emptyFilters = { search: '', company: '', country: '', from: '', to: '' }
+
+const statusBadge: Record<Submission['status'], string> = {
+  draft: 'bg-gray-100 text-gray-600',
+  completed: 'bg-yellow-100 text-yellow-700',
+  processed: 'bg-blue-100 text-blue-700',
+  emailed: 'bg-green-100 text-green-700',
+}
+
+// Characters with a meaning in PostgREST filter strings
+function sanitize(value: string) {
+  return value.replace(/[,()*%]/g, ' ').trim()
+}
+
+export default function SubmissionsManager() {
+  const [items, setItems] = useState<Submission[]>([])
+  const [total, setTotal] = useState(0)
+  const [countries, setCountries] = useState<string[]>([])
+  const [filters, setFilters] = useState(emptyFilters)
+  const [page, setPage] = useState(0)
+  const [loading, setLoading] = useState(true)
+
+  useEffect(() => {
+    async function fetchCountries() {
+      const { data } = await supabase
+        .from('submissions')
+        .select('country')
+        .not('country', 'is', null)
+        .order('country')
+      setCountries([...new Set((data ?? []).map((r) => r.country as string))])
+    }
+    fetchCountries()
+  }, [])
+
+  useEffect(() => {
+    async function fetchPage() {
+      let query = supabase
+        .from('submissions')
+        .select('id, full_name, email, company_name, job_title, country, status, created_at', { count: 'exact' })
+
+      const search = sanitize(filters.search)
+      if (search) {
+        query = query.or(`full_name.ilike.*${search}*,email.ilike.*${search}*,company_name.ilike.*${search}*`)
+      }
+      const company = sanitize(filters.company)
+      if (company) query = query.ilike('company_name', `%${company}%`)
+      if (filters.country) query = query.eq('country', filters.country)
+      if (filters.from) query = query.gte('created_at', new Date(`${filters.from}T00:00:00`).toISOString())
+      if (filters.to) query = query.lte('created_at', new Date(`${filters.to}T23:59:59.999`).toISOString())
+
+      const { data, count } = await query
+        .order('created_at', { ascending: false })
+        .range(page * PAGE_SIZE, page * PAGE_SIZE + PAGE_SIZE - 1)
+
+      setItems(data ?? [])
+      setTotal(count ?? 0)
+      setLoading(false)
+    }
+    fetchPage()
+  }, [filters, page])
+
+  const updateFilter = (key: keyof typeof emptyFilters, value: string) => {
+    setFilters((prev) => ({ ...prev, [key]: value }))
+    setPage(0)
+  }
+
+  const pageCount = Math.max(1, Math.ceil(total / PAGE_SIZE))
+  const hasFilters = Object.values(filters).some(Boolean)
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-6">
+        <h2 className="text-2xl font-bold text-gray-900">Submissions <span className="text-sm font-normal text-gray-500">({total})</span></h2>
+      </div>
+
+      <div className="flex flex-wrap items-end gap-3 mb-4">
+        <input
+          type="text"
+          placeholder="Search by name, email, or company..."
+          value={filters.search}
+          onChange={(e) => updateFilter('search', e.target.value)}
+          className="w-full max-w-xs px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 text-sm"
+        />
+        <input
+          type="text"
+          placeholder="Company"
+          value={filters.company}
+          onChange={(e) => updateFilter('company', e.target.value)}
+          className="w-40 px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 text-sm"
+        />
+        <select
+          value={filters.country}
+          onChange={(e) => updateFilter('country', e.target.value)}
+          className="w-44 px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 text-sm bg-white"
+        >
+          <option value="">All countries</option>
+          {countries.map((c) => <option key={c} value={c}>{c}</option>)}
+        </select>
+        <label className="text-xs text-gray-500">
+          From
+          <input
+            type="date"
+            value={filters.from}
+            onChange={(e) => updateFilter('from', e.target.value)}
+            className="block px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 text-sm"
+          />
+        </label>
+        <label className="text-xs text-gray-500">
+          To
+          <input
+            type="date"
+            value={filters.to}
+            onChange={(e) => updateFilter('to', e.target.value)}
+            className="block px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 text-sm"
+          />
+        </label>
+        {hasFilters && (
+          <button
+            onClick={() => { setFilters(emptyFilters); setPage(0) }}
+            className="px-3 py-2 text-sm text-blue-600 hover:underline"
+          >
+            Clear filters
+          </button>
+        )}
+      </div>
+
+      {loading ? (
+        <div className="text-gray-500">Loading...</div>
+      ) : (
+        <div className="bg-white rounded-xl shadow-sm overflow-hidden">
+          <table className="w-full text-sm">
+            <thead className="bg-gray-50 border-b">
+              <tr>
+                <th className="text-left px-4 py-3 font-medium text-gray-600">Name</th>
+                <th className="text-left px-4 py-3 font-medium text-gray-600">Company</th>
+                <th className="text-left px-4 py-3 font-medium text-gray-600 w-36">Country</th>
+                <th className="text-left px-4 py-3 font-medium text-gray-600 w-28">Status</th>
+                <th className="text-left px-4 py-3 font-medium text-gray-600 w-44">Submitted</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y">
+              {items.map((s) => (
+                <tr key={s.id} className="hover:bg-gray-50">
+                  <td className="px-4 py-3">
+                    <Link to={`/admin/submissions/${s.id}`} className="text-blue-600 hover:underline font-medium">
+                      {s.full_name}
+                    </Link>
+                    <p className="text-xs text-gray-500 mt-0.5">{s.email}</p>
+                  </td>
+                  <td className="px-4 py-3 text-gray-700">
+                    {s.company_name}
+                    {s.job_title && <p className="text-xs text-gray-400 mt-0.5">{s.job_title}</p>}
+                  </td>
+                  <td className="px-4 py-3 text-gray-600 text-xs">{s.country ?? '—'}</td>
+                  <td className="px-4 py-3">
+                    <span className={`inline-block px-2 py-0.5 rounded-full text-xs font-medium ${statusBadge[s.status]}`}>
+                      {s.status}
+                    </span>
+                  </td>
+                  <td className="px-4 py-3 text-gray-600 text-xs">{new Date(s.created_at).toLocaleString()}</td>
+                </tr>
+              ))}
+              {items.length === 0 && (
+                <tr><td colSpan={5} className="px-4 py-8 text-center text-gray-400">{hasFilters ? 'No matching submissions' : 'No submissions yet'}</td></tr>
+              )}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      <div className="flex items-center justify-between mt-4 text-sm text-gray-600">
+        <span>Page {page + 1} of {pageCount}</span>
+        <div className="space-x-2">
+          <button
+            onClick={() => setPage((p) => p - 1)}
+            disabled={page === 0}
+            className="px-3 py-1.5 border border-gray-300 rounded-lg hover:bg-gray-50 disabled:opacity-30 disabled:cursor-not-allowed"
+          >
+            Previous
+          </button>
+          <button
+            onClick={() => setPage((p) => p + 1)}
+            disabled={page + 1 >= pageCount}
+            className="px-3 py-1.5 border border-gray-300 rounded-lg hover:bg-gray-50 disabled:opacity-30 disabled:cursor-not-allowed"
+          >
+            Next
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
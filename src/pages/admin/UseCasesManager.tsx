@@ -1,6 +1,9 @@
 import { useEffect, useState } from 'react'
 import { supabase } from '../../supabaseClient'
+import { downloadSpreadsheet, type SpreadsheetFormat } from '../../files'
 import Modal from '../../components/admin/Modal'
+import UseCaseImport from '../../components/admin/UseCaseImport'
+import { catalogueRows } from '../../../supabase/functions/_shared/useCaseCatalogue.ts'
 
 interface UseCase {
   id: string
@@ -49,6 +52,8 @@ export default function UseCasesManager() {
   const [editing, setEditing] = useState<UseCase | null>(null)
   const [form, setForm] = useState(emptyForm)
   const [saving, setSaving] = useState(false)
+  const [importOpen, setImportOpen] = useState(false)
+  const [exportError, setExportError] = useState<string | null>(null)
 
   const fetchAll = async () => {
     const { data } = await supabase.from('use_cases').select('*').order('category').order('title')
@@ -124,17 +129,41 @@ export default function UseCasesManager() {
     fetchAll()
   }
 
+  const handleExport = async (format: SpreadsheetFormat) => {
+    setExportError(null)
+    try {
+      await downloadSpreadsheet(`use-cases-${new Date().toISOString().slice(0, 10)}`, format, catalogueRows(items))
+    } catch (err) {
+      setExportError(`Could not export the use cases: ${(err as Error).message}`)
+    }
+  }
+
   if (loading) return <div className="text-gray-500">Loading...</div>
 
   return (
     <div>
       <div className="flex items-center justify-between mb-6">
         <h2 className="text-2xl font-bold text-gray-900">Use Cases <span className="text-sm font-normal text-gray-500">({items.length})</span></h2>
-        <button onClick={openCreate} className="px-4 py-2 bg-blue-600 text-white text-sm font-medium rounded-lg hover:bg-blue-700">
-          + New Use Case
-        </button>
+        <div className="flex gap-2">
+          <button onClick={() => handleExport('csv')} className="px-4 py-2 border border-gray-300 text-sm font-medium rounded-lg hover:bg-gray-50">
+            Export CSV
+          </button>
+          <button onClick={() => handleExport('xlsx')} className="px-4 py-2 border border-gray-300 text-sm font-medium rounded-lg hover:bg-gray-50">
+            Export Excel
+          </button>
+          <button onClick={() => setImportOpen(true)} className="px-4 py-2 border border-gray-300 text-sm font-medium rounded-lg hover:bg-gray-50">
+            Import
+          </button>
+          <button onClick={openCreate} className="px-4 py-2 bg-blue-600 text-white text-sm font-medium rounded-lg hover:bg-blue-700">
+            + New Use Case
+          </button>
+        </div>
       </div>
 
+      {exportError && (
+        <div className="mb-4 px-4 py-3 rounded-lg bg-red-50 border border-red-200 text-sm text-red-700">{exportError}</div>
+      )}
+
       <div className="mb-4">
         <input
           type="text"
@@ -255,6 +284,14 @@ export default function UseCasesManager() {
           </div>
         </div>
       </Modal>
+
+      {importOpen && (
+        <UseCaseImport
+          useCases={items}
+          onClose={() => setImportOpen(false)}
+          onImported={() => { setImportOpen(false); fetchAll() }}
+        />
+      )}
     </div>
   )
 }
@@ -0,0 +1,20 @@
+// Respondents are anonymous, so they prove a submission is theirs with the
+// secret token created alongside it. Row level security and the
+// process-submission function read it from this header.
+export const SUBMISSION_TOKEN_HEADER = 'x-submission-token'
+
+const storageKey = (submissionId: string) => `submission-token:${submissionId}`
+
+export function createSubmissionToken(): string {
+  return crypto.randomUUID()
+}
+
+export function rememberSubmissionToken(submissionId: string, token: string) {
+  localStorage.setItem(storageKey(submissionId), token)
+}
+
+// Empty when this browser did not start the submission; requests then see
+// nothing, as if the submission did not exist
+export function submissionToken(submissionId: string): string {
+  return localStorage.getItem(storageKey(submissionId)) ?? ''
+}
@@ -0,0 +1,141 @@
+// Question visibility rules shared by the respondent flow, the scoring engine
+// and the admin screens. Mirrored in SQL by condition_rule_matches() in
+// 20260212000000_add_condition_rules.sql; keep the two in step.
+//
+// A rule is stored as JSON in questions.condition_rule:
+//   { "question_id": "<uuid>", "any_of": ["Manufacturing", "Automotive"] }
+//   { "all": [rule, ...] }   every rule matches
+//   { "any": [rule, ...] }   at least one rule matches
+//   { "not": rule }
+// A leaf matches when the referenced question is visible and its answer (or,
+// for checkboxes, one of its selected answers) is in any_of.
+
+export type ConditionRule =
+  | { question_id: string; any_of: string[] }
+  | { all: ConditionRule[] }
+  | { any: ConditionRule[] }
+  | { not: ConditionRule };
+
+export interface ConditionalQuestion {
+  id: string;
+  condition_rule?: ConditionRule | null;
+  // Single parent/answer condition used before condition_rule existed
+  condition_question_id?: string | null;
+  condition_answer?: string | null;
+}
+
+export type Answers = Record<string, string | string[] | null | undefined>;
+
+export function questionRule(question: ConditionalQuestion): ConditionRule | null {
+  if (question.condition_rule) return question.condition_rule;
+  if (question.condition_question_id && question.condition_answer) {
+    return { question_id: question.condition_question_id, any_of: [question.condition_answer] };
+  }
+  return null;
+}
+
+export function evaluateRule(
+  rule: ConditionRule,
+  answerOf: (questionId: string) => string | string[] | null | undefined,
+): boolean {
+  if ("all" in rule) return rule.all.every((r) => evaluateRule(r, answerOf));
+  if ("any" in rule) return rule.any.some((r) => evaluateRule(r, answerOf));
+  if ("not" in rule) return !evaluateRule(rule.not, answerOf);
+  if ("question_id" in rule) {
+    const answer = answerOf(rule.question_id);
+    if (answer === null || answer === undefined) return false;
+    return Array.isArray(answer)
+      ? answer.some((a) => rule.any_of.includes(a))
+      : rule.any_of.includes(answer);
+  }
+  return false;
+}
+
+/**
+ * Returns a visibility check for the given questions. A question's rule only
+ * sees answers of questions that are themselves visible, so stale answers
+ * below a changed parent do not keep descendants visible. Questions not in
+ * the list are treated as visible; cycles resolve to hidden.
+ */
+export function createVisibility(
+  questions: ConditionalQuestion[],
+  answers: Answers,
+): (questionId: string) => boolean {
+  const byId = new Map(questions.map((q) => [q.id, q]));
+  const memo = new Map<string, boolean>();
+  const visiting = new Set<string>();
+
+  const isVisible = (questionId: string): boolean => {
+    const cached = memo.get(questionId);
+    if (cached !== undefined) return cached;
+    const question = byId.get(questionId);
+    if (!question) return true;
+    if (visiting.has(questionId)) return false;
+
+    visiting.add(questionId);
+    const rule = questionRule(question);
+    const visible = rule === null ||
+      evaluateRule(rule, (id) => (isVisible(id) ? answers[id] : undefined));
+    visiting.delete(questionId);
+
+    memo.set(questionId, visible);
+    return visible;
+  };
+
+  return isVisible;
+}
+
+/** Every question/answer leaf of the rule, in order. */
+export function ruleLeaves(rule: ConditionRule): { question_id: string; any_of: string[] }[] {
+  if ("all" in rule) return rule.all.flatMap(ruleLeaves);
+  if ("any" in rule) return rule.any.flatMap(ruleLeaves);
+  if ("not" in rule) return ruleLeaves(rule.not);
+  if ("question_id" in rule) return [rule];
+  return [];
+}
+
+/** All question ids referenced anywhere in the rule. */
+export function ruleQuestionIds(rule: ConditionRule): string[] {
+  return ruleLeaves(rule).map((leaf) => leaf.question_id);
+}
+
+/** Human-readable rule, e.g. `Industry is Manufacturing or Automotive`. */
+export function describeRule(
+  rule: ConditionRule,
+  questionLabel: (questionId: string) => string,
+): string {
+  if ("all" in rule) return rule.all.map((r) => wrap(r, questionLabel)).join(" AND ");
+  if ("any" in rule) return rule.any.map((r) => wrap(r, questionLabel)).join(" OR ");
+  if ("not" in rule) {
+    const inner = rule.not;
+    if ("question_id" in inner) {
+      return `${questionLabel(inner.question_id)} is not ${inner.any_of.join(" or ")}`;
+    }
+    return `NOT (${describeRule(inner, questionLabel)})`;
+  }
+  if ("question_id" in rule) {
+    return `${questionLabel(rule.question_id)} is ${rule.any_of.join(" or ")}`;
+  }
+  return "(invalid rule)";
+}
+
+function wrap(rule: ConditionRule, questionLabel: (questionId: string) => string): string {
+  const text = describeRule(rule, questionLabel);
+  return "all" in rule || "any" in rule ? `(${text})` : text;
+}
+
+/** Checks that a parsed JSON value has the ConditionRule shape. */
+export function isConditionRule(value: unknown): value is ConditionRule {
+  if (typeof value !== "object" || value === null || Array.isArray(value)) return false;
+  const v = value as Record<string, unknown>;
+  const keys = Object.keys(v);
+  if (keys.length === 1 && (keys[0] === "all" || keys[0] === "any")) {
+    const children = v[keys[0]];
+    return Array.isArray(children) && children.every(isConditionRule);
+  }
+  if (keys.length === 1 && keys[0] === "not") return isConditionRule(v.not);
+  if (keys.length === 2 && typeof v.question_id === "string" && Array.isArray(v.any_of)) {
+    return v.any_of.every((a) => typeof a === "string");
+  }
+  return false;
+}
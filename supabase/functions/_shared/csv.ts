@@ -0,0 +1,78 @@
+// Minimal RFC 4180 CSV reading and writing for admin imports/exports.
+// Quoted fields may contain commas, quotes ("") and line breaks.
+
+// Blank rows are kept, so a row's index still gives its spreadsheet row
+// number in import errors; importers skip them with isBlankRecord()
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let quoted = false;
+
+  // Spreadsheet tools often prefix UTF-8 exports with a BOM
+  const input = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+
+  for (let i = 0; i < input.length; i++) {
+    const ch = input[i];
+    if (quoted) {
+      if (ch === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (ch === '"') {
+        quoted = false;
+      } else {
+        field += ch;
+      }
+    } else if (ch === '"') {
+      quoted = true;
+    } else if (ch === ",") {
+      row.push(field);
+      field = "";
+    } else if (ch === "\n" || ch === "\r") {
+      if (ch === "\r" && input[i + 1] === "\n") i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += ch;
+    }
+  }
+  if (field !== "" || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows;
+}
+
+function escapeField(value: string): string {
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+export function toCsv(rows: (string | number | null | undefined)[][]): string {
+  return rows.map((r) => r.map((v) => escapeField(v == null ? "" : String(v))).join(",")).join("\r\n") + "\r\n";
+}
+
+/**
+ * Turns a header row plus data rows into records keyed by normalised header
+ * ("Use Case #" and "use_case_number" style headers are matched via aliases).
+ */
+export function recordsFromRows(
+  rows: string[][],
+  aliases: Record<string, string> = {},
+): { headers: string[]; records: Record<string, string>[] } {
+  if (rows.length === 0) return { headers: [], records: [] };
+  const headers = rows[0].map((h) => {
+    const key = h.trim().toLowerCase().replace(/[^a-z0-9#]+/g, "_").replace(/^_+|_+$/g, "");
+    return aliases[key] ?? key;
+  });
+  const records = rows.slice(1).map((r) =>
+    Object.fromEntries(headers.map((h, i) => [h, (r[i] ?? "").trim()]))
+  );
+  return { headers, records };
+}
+
+/** Blank spreadsheet rows carry no data. */
+export function isBlankRecord(record: Record<string, string>): boolean {
+  return Object.values(record).every((value) => value === "");
+}
@@ -0,0 +1,68 @@
+// Integrity checks over one questionnaire version's decision matrix, for the
+// admin Matrix Health page.
+
+import {
+  DEFAULT_SCORING_SETTINGS,
+  maxAchievableScores,
+  type MatrixRow,
+  type ScoringSettings,
+} from "./scoring.ts";
+import { optionLabels, type StoredOptions } from "./options.ts";
+
+export interface HealthQuestion {
+  id: string;
+  question_text: string;
+  question_type: string;
+  options: StoredOptions;
+}
+
+export interface HealthUseCase {
+  id: string;
+}
+
+export interface MatrixHealth<Q extends HealthQuestion, U extends HealthUseCase, M extends MatrixRow> {
+  // Mappings whose triggering_answer is not (or no longer) an option of their question
+  orphanedMappings: { mapping: M; question: Q }[];
+  unmappedUseCases: U[];
+  // Mapped, but even the best possible answers stay below the minimum score
+  unreachableUseCases: { useCase: U; maxScore: number }[];
+  unmappedQuestions: Q[];
+  deadOptions: { question: Q; option: string }[];
+}
+
+export function matrixHealth<Q extends HealthQuestion, U extends HealthUseCase, M extends MatrixRow>(
+  questions: Q[],
+  matrix: M[],
+  useCases: U[],
+  settings: ScoringSettings = DEFAULT_SCORING_SETTINGS,
+): MatrixHealth<Q, U, M> {
+  const questionById = new Map(questions.map((q) => [q.id, q]));
+  const rows = matrix.filter((m) => questionById.has(m.question_id));
+
+  const orphanedMappings = rows
+    .filter((m) => !optionLabels(questionById.get(m.question_id)!).includes(m.triggering_answer))
+    .map((mapping) => ({ mapping, question: questionById.get(mapping.question_id)! }));
+
+  const mappedUseCases = new Set(rows.map((m) => m.use_case_id));
+  const maxScores = maxAchievableScores(questions, rows);
+
+  const mappedQuestions = new Set(rows.map((m) => m.question_id));
+  const triggering = new Set(rows.map((m) => `${m.question_id}\u0000${m.triggering_answer}`));
+
+  return {
+    orphanedMappings,
+    unmappedUseCases: useCases.filter((uc) => !mappedUseCases.has(uc.id)),
+    unreachableUseCases: useCases
+      .filter((uc) => mappedUseCases.has(uc.id) && (maxScores.get(uc.id) ?? 0) < settings.min_score)
+      .map((useCase) => ({ useCase, maxScore: maxScores.get(useCase.id) ?? 0 })),
+    unmappedQuestions: questions.filter((q) => !mappedQuestions.has(q.id)),
+    // Options of unmapped questions are already covered by unmappedQuestions
+    deadOptions: questions
+      .filter((q) => mappedQuestions.has(q.id))
+      .flatMap((question) =>
+        optionLabels(question)
+          .filter((option) => !triggering.has(`${question.id}\u0000${option}`))
+          .map((option) => ({ question, option }))
+      ),
+  };
+}
@@ -0,0 +1,149 @@
+// Resolves a question / answer / use case / weight spreadsheet against one
+// questionnaire version and the use case catalogue, ready for the
+// import_decision_matrix() RPC.
+
+import { DEFAULT_WEIGHT } from "./scoring.ts";
+import { isBlankRecord } from "./csv.ts";
+import { optionLabels, resolveOption, type StoredOptions } from "./options.ts";
+
+export const MATRIX_HEADER_ALIASES: Record<string, string> = {
+  "question_text": "question",
+  "question_#": "question",
+  "triggering_answer": "answer",
+  "use_case_#": "use_case",
+  "use_case_number": "use_case",
+  "use_case_title": "use_case",
+};
+
+export const MATRIX_COLUMNS = ["question", "answer", "use_case", "weight"];
+
+export interface ImportQuestion {
+  id: string;
+  question_text: string;
+  question_type: string;
+  options: StoredOptions;
+  order: number;
+  section: { order: number } | null;
+}
+
+export interface ImportUseCase {
+  id: string;
+  title: string;
+  use_case_number: number | null;
+}
+
+export interface ImportMatrixEntry {
+  question_id: string;
+  use_case_id: string;
+  triggering_answer: string;
+  weight: number;
+}
+
+export type MatrixImportStatus = "new" | "reweighted" | "unchanged" | "error";
+
+export interface MatrixImportRow {
+  // 1-based spreadsheet row, counting the header
+  line: number;
+  status: MatrixImportStatus;
+  question: string;
+  answer: string;
+  useCase: string;
+  weight: number | null;
+  previousWeight: number | null;
+  entry: ImportMatrixEntry | null;
+  errors: string[];
+}
+
+const normalise = (text: string) => text.trim().replace(/\s+/g, " ").toLowerCase();
+
+/** Questions in the order respondents see them; a question's number is its position here, from 1. */
+export function numberedQuestions<T extends ImportQuestion>(questions: T[]): T[] {
+  return [...questions].sort((a, b) => (a.section?.order ?? 0) - (b.section?.order ?? 0) || a.order - b.order);
+}
+
+/**
+ * Questions and use cases are resolved by number ("12", "#12", "Q12") or by
+ * their exact text, ignoring case and repeated spaces. Answers are matched
+ * case-insensitively but stored with the question's own spelling.
+ */
+export function resolveMatrixRows(
+  headers: string[],
+  records: Record<string, string>[],
+  questions: ImportQuestion[],
+  useCases: ImportUseCase[],
+  existing: ImportMatrixEntry[],
+): { rows: MatrixImportRow[]; missingColumns: string[] } {
+  const missingColumns = MATRIX_COLUMNS.filter((c) => c !== "weight" && !headers.includes(c));
+
+  const ordered = numberedQuestions(questions);
+  const questionByText = new Map(ordered.map((q) => [normalise(q.question_text), q]));
+  const useCaseByNumber = new Map(useCases.filter((uc) => uc.use_case_number != null).map((uc) => [uc.use_case_number, uc]));
+  const useCaseByTitle = new Map(useCases.map((uc) => [normalise(uc.title), uc]));
+  const existingWeight = new Map(
+    existing.map((e) => [`${e.question_id}\u0000${e.use_case_id}\u0000${e.triggering_answer}`, e.weight]),
+  );
+  const seen = new Map<string, number>();
+
+  const rows = records.flatMap((record, i): MatrixImportRow[] => {
+    if (isBlankRecord(record)) return [];
+    // Records follow the sheet's rows after the header, blank ones included
+    const line = i + 2;
+    const errors: string[] = [];
+    const questionRef = record.question ?? "";
+    const answerRef = record.answer ?? "";
+    const useCaseRef = record.use_case ?? "";
+
+    const questionNumber = questionRef.match(/^(?:q|#)?\s*(\d+)$/i);
+    const question = questionNumber ? ordered[Number(questionNumber[1]) - 1] : questionByText.get(normalise(questionRef));
+    if (!questionRef) errors.push("Question is empty");
+    else if (!question) errors.push(`No question matches "${questionRef}" in this version`);
+
+    const useCaseNumber = useCaseRef.match(/^#?\s*(\d+)$/);
+    const useCase = useCaseNumber ? useCaseByNumber.get(Number(useCaseNumber[1])) : useCaseByTitle.get(normalise(useCaseRef));
+    if (!useCaseRef) errors.push("Use case is empty");
+    else if (!useCase) errors.push(`No use case matches "${useCaseRef}"`);
+
+    let answer: string | undefined;
+    if (!answerRef) {
+      errors.push("Answer is empty");
+    } else if (question) {
+      const options = optionLabels(question);
+      // Spreadsheets written before an option was renamed still use its former label
+      answer = options.find((o) => normalise(o) === normalise(answerRef)) ?? resolveOption(question, answerRef)?.label;
+      if (!answer) {
+        errors.push(`"${answerRef}" is not an answer to this question (expected ${options.map((o) => `"${o}"`).join(", ")})`);
+      }
+    }
+
+    const weightRef = (record.weight ?? "").trim();
+    const weight = weightRef === "" ? DEFAULT_WEIGHT : /^\d+$/.test(weightRef) ? Number(weightRef) : null;
+    if (weight === null) errors.push(`Weight "${weightRef}" is not a whole number ≥ 0`);
+
+    let entry: ImportMatrixEntry | null = null;
+    let previousWeight: number | null = null;
+    if (question && useCase && answer && weight !== null) {
+      const key = `${question.id}\u0000${useCase.id}\u0000${answer}`;
+      const first = seen.get(key);
+      if (first) errors.push(`Same mapping as row ${first}`);
+      else seen.set(key, line);
+      entry = { question_id: question.id, use_case_id: useCase.id, triggering_answer: answer, weight };
+      previousWeight = existingWeight.get(key) ?? null;
+    }
+
+    return [{
+      line,
+      status: errors.length > 0 || !entry
+        ? "error"
+        : previousWeight === null ? "new" : previousWeight !== weight ? "reweighted" : "unchanged",
+      question: question?.question_text ?? questionRef,
+      answer: answer ?? answerRef,
+      useCase: useCase?.title ?? useCaseRef,
+      weight,
+      previousWeight,
+      entry: errors.length > 0 ? null : entry,
+      errors,
+    }];
+  });
+
+  return { rows, missingColumns };
+}
@@ -0,0 +1,57 @@
+// Answer options of a question. Stored in questions.options as
+//   [{ "id": "3f9c0a1b", "label": "Finance", "aliases": ["Finanse"] }, ...]
+// The id survives renames and is copied along when a version is duplicated;
+// aliases are the labels an option had before, so answers recorded under an
+// older wording still resolve to it. Rows written before options had ids hold
+// plain label strings, which normalize_question_options() in
+// 20260218000000_add_option_ids.sql converts on the next write.
+//
+// decision_matrix.triggering_answer, condition rules and responses.answer
+// keep referring to options by label; renames are cascaded to the first two
+// by the database.
+
+export interface QuestionOption {
+  id: string;
+  label: string;
+  aliases?: string[];
+}
+
+export type StoredOptions = (QuestionOption | string)[] | null | undefined;
+
+export interface OptionQuestion {
+  question_type: string;
+  options?: StoredOptions;
+}
+
+const YES_NO: QuestionOption[] = [
+  { id: "Yes", label: "Yes" },
+  { id: "No", label: "No" },
+];
+
+/** Options a question can be answered with; YesNo questions default to Yes/No. */
+export function questionOptions(question: OptionQuestion): QuestionOption[] {
+  if (question.options && question.options.length > 0) {
+    return question.options.map((o) => (typeof o === "string" ? { id: o, label: o } : o));
+  }
+  return question.question_type === "YesNo" ? YES_NO : [];
+}
+
+export function optionLabels(question: OptionQuestion): string[] {
+  return questionOptions(question).map((o) => o.label);
+}
+
+/** The option an answer refers to, by current label or by a former one. */
+export function resolveOption(question: OptionQuestion, answer: string): QuestionOption | undefined {
+  const options = questionOptions(question);
+  return options.find((o) => o.label === answer) ?? options.find((o) => o.aliases?.includes(answer));
+}
+
+/**
+ * Rewrites an answer recorded under a former label to the option's current
+ * label. Answers matching no option are returned as they are.
+ */
+export function currentAnswer<T extends string | string[] | null | undefined>(question: OptionQuestion, answer: T): T {
+  if (answer === null || answer === undefined) return answer;
+  if (Array.isArray(answer)) return answer.map((a) => resolveOption(question, a)?.label ?? a) as T;
+  return (resolveOption(question, answer as string)?.label ?? answer) as T;
+}
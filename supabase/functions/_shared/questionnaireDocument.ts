@@ -0,0 +1,428 @@
+// Portable questionnaire document used for import/export. Questions, sections
+// and use cases are referred to by slug keys instead of UUIDs, and everything
+// is emitted in questionnaire order, so two exports of similar content diff
+// cleanly in git. Serialisation (JSON / YAML) is left to the caller; this
+// module only builds and validates plain objects.
+
+import {
+  DEFAULT_WEIGHT,
+  scoringSettings,
+  scoringSettingsErrors,
+  type ScoringSettings,
+} from "./scoring.ts";
+import { questionRule, type ConditionalQuestion, type ConditionRule } from "./conditions.ts";
+import { optionLabels, type StoredOptions } from "./options.ts";
+
+export const DOCUMENT_FORMAT = "questionnaire/v1";
+
+export type QuestionType = "MultipleChoice" | "YesNo" | "Checkbox";
+
+const QUESTION_TYPES: QuestionType[] = ["MultipleChoice", "YesNo", "Checkbox"];
+
+// Same shape as ConditionRule, with question keys in place of ids
+export type DocumentCondition =
+  | { question: string; any_of: string[] }
+  | { all: DocumentCondition[] }
+  | { any: DocumentCondition[] }
+  | { not: DocumentCondition };
+
+export interface DocumentMapping {
+  answer: string;
+  use_case: string;
+  weight: number;
+}
+
+export interface DocumentQuestion {
+  key: string;
+  text: string;
+  type: QuestionType;
+  options?: string[];
+  condition?: DocumentCondition;
+  mappings?: DocumentMapping[];
+}
+
+export interface DocumentSection {
+  key: string;
+  title: string;
+  description?: string;
+  questions: DocumentQuestion[];
+}
+
+export interface DocumentUseCase {
+  key: string;
+  title: string;
+  category: string;
+  sub_category: string;
+  engagement_category?: string;
+  use_case_number?: number;
+}
+
+export interface QuestionnaireDocument {
+  format: string;
+  title: string;
+  version: string;
+  description?: string;
+  scoring?: Partial<ScoringSettings>;
+  sections: DocumentSection[];
+  use_cases: DocumentUseCase[];
+}
+
+export interface SourceQuestion extends ConditionalQuestion {
+  question_text: string;
+  question_type: QuestionType;
+  options: StoredOptions;
+  order: number;
+  decision_matrix: { use_case_id: string; triggering_answer: string; weight: number | null }[];
+}
+
+export interface SourceSection {
+  title: string;
+  description: string | null;
+  order: number;
+  questions: SourceQuestion[];
+}
+
+export interface SourceUseCase {
+  id: string;
+  title: string;
+  category: string;
+  sub_category: string;
+  engagement_category: string | null;
+  use_case_number: number | null;
+}
+
+/** Resolved document, ready for the import_questionnaire() RPC. */
+export interface ImportPlan {
+  title: string;
+  version: string;
+  description: string | null;
+  // null leaves the database defaults in place
+  scoring_settings: ScoringSettings | null;
+  sections: {
+    title: string;
+    description: string | null;
+    order: number;
+    questions: {
+      // Document key; condition_rule question_ids hold keys until the RPC
+      // swaps them for the new question ids
+      key: string;
+      question_text: string;
+      question_type: QuestionType;
+      options: string[] | null;
+      order: number;
+      condition_rule: ConditionRule | null;
+      mappings: { use_case_id: string; triggering_answer: string; weight: number }[];
+    }[];
+  }[];
+}
+
+export function slugify(text: string, maxLength = 48): string {
+  const slug = text
+    .toLowerCase()
+    .normalize("NFKD")
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "");
+  return slug.slice(0, maxLength).replace(/-+$/, "") || "item";
+}
+
+function uniqueKey(base: string, taken: Set<string>): string {
+  let key = base;
+  for (let n = 2; taken.has(key); n++) key = `${base}-${n}`;
+  taken.add(key);
+  return key;
+}
+
+function toDocumentCondition(rule: ConditionRule, keyOf: (id: string) => string): DocumentCondition {
+  if ("all" in rule) return { all: rule.all.map((r) => toDocumentCondition(r, keyOf)) };
+  if ("any" in rule) return { any: rule.any.map((r) => toDocumentCondition(r, keyOf)) };
+  if ("not" in rule) return { not: toDocumentCondition(rule.not, keyOf) };
+  return { question: keyOf(rule.question_id), any_of: rule.any_of };
+}
+
+export function buildDocument(
+  questionnaire: { title: string; version: string; description: string | null; scoring_settings?: unknown },
+  sections: SourceSection[],
+  useCases: SourceUseCase[],
+): QuestionnaireDocument {
+  const orderedSections = [...sections].sort((a, b) => a.order - b.order);
+  const sectionKeys = new Set<string>();
+  const questionKeys = new Set<string>();
+  const questionKey = new Map<string, string>();
+  for (const section of orderedSections) {
+    for (const q of [...section.questions].sort((a, b) => a.order - b.order)) {
+      questionKey.set(q.id, uniqueKey(slugify(q.question_text, 40), questionKeys));
+    }
+  }
+
+  const useCaseKeys = new Set<string>();
+  const useCaseKey = new Map<string, string>();
+  const referenced = new Set(
+    sections.flatMap((s) => s.questions.flatMap((q) => q.decision_matrix.map((m) => m.use_case_id))),
+  );
+  const exportedUseCases = useCases
+    .filter((uc) => referenced.has(uc.id))
+    .sort((a, b) =>
+      (a.use_case_number ?? Infinity) - (b.use_case_number ?? Infinity) || a.title.localeCompare(b.title)
+    )
+    .map((uc): DocumentUseCase => {
+      const key = uniqueKey(uc.use_case_number ? `uc-${uc.use_case_number}` : slugify(uc.title), useCaseKeys);
+      useCaseKey.set(uc.id, key);
+      return {
+        key,
+        title: uc.title,
+        category: uc.category,
+        sub_category: uc.sub_category,
+        ...(uc.engagement_category ? { engagement_category: uc.engagement_category } : {}),
+        ...(uc.use_case_number ? { use_case_number: uc.use_case_number } : {}),
+      };
+    });
+
+  return {
+    format: DOCUMENT_FORMAT,
+    title: questionnaire.title,
+    version: questionnaire.version,
+    ...(questionnaire.description ? { description: questionnaire.description } : {}),
+    ...(questionnaire.scoring_settings ? { scoring: scoringSettings(questionnaire.scoring_settings) } : {}),
+    sections: orderedSections.map((section): DocumentSection => ({
+      key: uniqueKey(slugify(section.title), sectionKeys),
+      title: section.title,
+      ...(section.description ? { description: section.description } : {}),
+      questions: [...section.questions].sort((a, b) => a.order - b.order).map((q): DocumentQuestion => {
+        const rule = questionRule(q);
+        const options = optionLabels(q);
+        const mappings = q.decision_matrix
+          .filter((m) => useCaseKey.has(m.use_case_id))
+          .map((m) => ({
+            answer: m.triggering_answer,
+            use_case: useCaseKey.get(m.use_case_id)!,
+            weight: m.weight ?? DEFAULT_WEIGHT,
+          }))
+          .sort((a, b) =>
+            rank(options, a.answer) - rank(options, b.answer) ||
+            a.answer.localeCompare(b.answer) ||
+            a.use_case.localeCompare(b.use_case, undefined, { numeric: true })
+          );
+        return {
+          key: questionKey.get(q.id)!,
+          text: q.question_text,
+          type: q.question_type,
+          ...(q.options?.length ? { options } : {}),
+          ...(rule ? { condition: toDocumentCondition(rule, (id) => questionKey.get(id) ?? id) } : {}),
+          ...(mappings.length > 0 ? { mappings } : {}),
+        };
+      }),
+    })),
+    use_cases: exportedUseCases,
+  };
+}
+
+function rank(options: string[], answer: string): number {
+  const idx = options.indexOf(answer);
+  return idx === -1 ? options.length : idx;
+}
+
+const isObject = (v: unknown): v is Record<string, unknown> =>
+  typeof v === "object" && v !== null && !Array.isArray(v);
+
+const isStringArray = (v: unknown): v is string[] =>
+  Array.isArray(v) && v.every((s) => typeof s === "string");
+
+/**
+ * Validates a parsed document and resolves its use case keys against the
+ * catalogue (by use_case_number, then by title). Returns every problem found
+ * rather than stopping at the first, so a reviewer can fix them in one pass.
+ */
+export function resolveDocument(
+  doc: unknown,
+  catalogue: SourceUseCase[],
+): { plan: ImportPlan | null; errors: string[] } {
+  const errors: string[] = [];
+  if (!isObject(doc)) return { plan: null, errors: ["The document must be an object"] };
+
+  if (doc.format !== DOCUMENT_FORMAT) {
+    errors.push(`Unsupported format ${JSON.stringify(doc.format)} (expected "${DOCUMENT_FORMAT}")`);
+  }
+  if (typeof doc.title !== "string" || !doc.title.trim()) errors.push("title is required");
+  if (typeof doc.version !== "string" || !doc.version.trim()) errors.push("version is required");
+  if (doc.description !== undefined && typeof doc.description !== "string") errors.push("description must be text");
+  if (doc.scoring !== undefined) errors.push(...scoringSettingsErrors(doc.scoring).map((e) => `scoring: ${e}`));
+  if (!Array.isArray(doc.sections)) errors.push("sections must be a list");
+  if (doc.use_cases !== undefined && !Array.isArray(doc.use_cases)) errors.push("use_cases must be a list");
+  if (errors.length > 0) return { plan: null, errors };
+
+  // Use cases
+  const byNumber = new Map(catalogue.filter((uc) => uc.use_case_number).map((uc) => [uc.use_case_number, uc]));
+  const byTitle = new Map(catalogue.map((uc) => [uc.title.trim().toLowerCase(), uc]));
+  const useCaseIds = new Map<string, string | null>();
+  for (const [i, uc] of ((doc.use_cases as unknown[] | undefined) ?? []).entries()) {
+    const where = `use_cases[${i}]`;
+    if (!isObject(uc) || typeof uc.key !== "string" || typeof uc.title !== "string") {
+      errors.push(`${where}: key and title are required`);
+      continue;
+    }
+    if (useCaseIds.has(uc.key)) errors.push(`${where}: duplicate key "${uc.key}"`);
+    const match = (typeof uc.use_case_number === "number" ? byNumber.get(uc.use_case_number) : undefined) ??
+      byTitle.get(uc.title.trim().toLowerCase());
+    useCaseIds.set(uc.key, match?.id ?? null);
+  }
+
+  // Questions are collected first so conditions can be checked against them
+  interface Collected {
+    key: string;
+    index: number;
+    options: string[];
+  }
+  const questions = new Map<string, Collected>();
+  const sectionKeys = new Set<string>();
+  let index = 0;
+  for (const [si, section] of (doc.sections as unknown[]).entries()) {
+    const where = `sections[${si}]`;
+    if (!isObject(section) || typeof section.title !== "string" || !Array.isArray(section.questions)) {
+      errors.push(`${where}: title and questions are required`);
+      continue;
+    }
+    if (typeof section.key === "string") {
+      if (sectionKeys.has(section.key)) errors.push(`${where}: duplicate key "${section.key}"`);
+      sectionKeys.add(section.key);
+    }
+    for (const [qi, q] of section.questions.entries()) {
+      const qWhere = `${where}.questions[${qi}]`;
+      if (!isObject(q) || typeof q.key !== "string" || typeof q.text !== "string") {
+        errors.push(`${qWhere}: key and text are required`);
+        continue;
+      }
+      if (!QUESTION_TYPES.includes(q.type as QuestionType)) {
+        errors.push(`Question "${q.key}": type must be one of ${QUESTION_TYPES.join(", ")}`);
+      }
+      if (q.options !== undefined && !isStringArray(q.options)) {
+        errors.push(`Question "${q.key}": options must be a list of text`);
+      }
+      if (q.type !== "YesNo" && (!isStringArray(q.options) || q.options.length === 0)) {
+        errors.push(`Question "${q.key}": ${String(q.type)} questions need options`);
+      }
+      if (questions.has(q.key)) errors.push(`Question "${q.key}": duplicate key`);
+      questions.set(q.key, {
+        key: q.key,
+        index: index++,
+        options: optionLabels({
+          question_type: String(q.type),
+          options: isStringArray(q.options) ? q.options : null,
+        }),
+      });
+    }
+  }
+
+  const toRule = (cond: unknown, owner: Collected): ConditionRule | null => {
+    if (!isObject(cond)) {
+      errors.push(`Question "${owner.key}": condition is not a valid rule`);
+      return null;
+    }
+    for (const combinator of ["all", "any"] as const) {
+      if (combinator in cond) {
+        if (!Array.isArray(cond[combinator])) {
+          errors.push(`Question "${owner.key}": condition "${combinator}" must be a list`);
+          return null;
+        }
+        const children = (cond[combinator] as unknown[]).map((c) => toRule(c, owner));
+        if (children.some((c) => c === null)) return null;
+        return combinator === "all" ? { all: children as ConditionRule[] } : { any: children as ConditionRule[] };
+      }
+    }
+    if ("not" in cond) {
+      const inner = toRule(cond.not, owner);
+      return inner ? { not: inner } : null;
+    }
+    if (typeof cond.question !== "string" || !isStringArray(cond.any_of)) {
+      errors.push(`Question "${owner.key}": condition needs question and any_of`);
+      return null;
+    }
+    const parent = questions.get(cond.question);
+    if (!parent) {
+      errors.push(`Question "${owner.key}": condition refers to unknown question "${cond.question}"`);
+      return null;
+    }
+    if (parent.index >= owner.index) {
+      errors.push(`Question "${owner.key}": condition refers to later question "${cond.question}"`);
+    }
+    for (const answer of cond.any_of) {
+      if (!parent.options.includes(answer)) {
+        errors.push(`Question "${owner.key}": condition expects "${answer}", which is not an option of "${cond.question}"`);
+      }
+    }
+    return { question_id: cond.question, any_of: cond.any_of };
+  };
+
+  const plan: ImportPlan = {
+    title: (doc.title as string).trim(),
+    version: (doc.version as string).trim(),
+    description: (doc.description as string | undefined) ?? null,
+    scoring_settings: doc.scoring === undefined ? null : scoringSettings(doc.scoring),
+    sections: [],
+  };
+
+  for (const [si, section] of (doc.sections as unknown[]).entries()) {
+    if (!isObject(section) || !Array.isArray(section.questions)) continue;
+    const questionsOut: ImportPlan["sections"][number]["questions"] = [];
+    for (const [qi, q] of section.questions.entries()) {
+      if (!isObject(q) || typeof q.key !== "string" || typeof q.text !== "string") continue;
+      const collected = questions.get(q.key)!;
+      const rule = q.condition === undefined || q.condition === null ? null : toRule(q.condition, collected);
+
+      const mappings: ImportPlan["sections"][number]["questions"][number]["mappings"] = [];
+      const seen = new Set<string>();
+      if (q.mappings !== undefined && !Array.isArray(q.mappings)) {
+        errors.push(`Question "${q.key}": mappings must be a list`);
+      }
+      for (const m of Array.isArray(q.mappings) ? q.mappings : []) {
+        if (!isObject(m) || typeof m.answer !== "string" || typeof m.use_case !== "string") {
+          errors.push(`Question "${q.key}": each mapping needs answer and use_case`);
+          continue;
+        }
+        const weight = m.weight === undefined ? DEFAULT_WEIGHT : m.weight;
+        if (typeof weight !== "number" || !Number.isInteger(weight) || weight < 0) {
+          errors.push(`Question "${q.key}": weight for "${m.answer}" → "${m.use_case}" must be a whole number ≥ 0`);
+          continue;
+        }
+        if (!collected.options.includes(m.answer)) {
+          errors.push(`Question "${q.key}": mapping answer "${m.answer}" is not one of its options`);
+        }
+        if (!useCaseIds.has(m.use_case)) {
+          errors.push(`Question "${q.key}": mapping refers to use case "${m.use_case}", which is not listed in use_cases`);
+          continue;
+        }
+        const useCaseId = useCaseIds.get(m.use_case);
+        if (!useCaseId) {
+          errors.push(`Use case "${m.use_case}" does not exist in the catalogue`);
+          continue;
+        }
+        const dedupe = `${m.answer}\u0000${useCaseId}`;
+        if (seen.has(dedupe)) {
+          errors.push(`Question "${q.key}": "${m.answer}" is mapped to "${m.use_case}" more than once`);
+          continue;
+        }
+        seen.add(dedupe);
+        mappings.push({ use_case_id: useCaseId, triggering_answer: m.answer, weight });
+      }
+
+      questionsOut.push({
+        key: q.key,
+        question_text: q.text,
+        question_type: q.type as QuestionType,
+        options: isStringArray(q.options) ? q.options : null,
+        order: qi + 1,
+        condition_rule: rule,
+        mappings,
+      });
+    }
+    plan.sections.push({
+      title: section.title as string,
+      description: typeof section.description === "string" ? section.description : null,
+      order: si + 1,
+      questions: questionsOut,
+    });
+  }
+
+  // The same missing use case is reported once
+  const unique = [...new Set(errors)];
+  return unique.length > 0 ? { plan: null, errors: unique } : { plan, errors: [] };
+}
@@ -0,0 +1,59 @@
+// Signed links that let a respondent pick up a draft submission later, on
+// any device. A token is "<submission id>.<expiry>.<signature>", where the
+// signature is an HMAC-SHA256 over the first two parts keyed with a secret
+// only the edge functions know, so tokens cannot be guessed or extended.
+
+export const RESUME_TOKEN_TTL_DAYS = 30;
+
+const encoder = new TextEncoder();
+
+function base64Url(bytes: ArrayBuffer): string {
+  let binary = "";
+  for (const b of new Uint8Array(bytes)) binary += String.fromCharCode(b);
+  return btoa(binary).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+}
+
+async function sign(payload: string, secret: string): Promise<string> {
+  const key = await crypto.subtle.importKey(
+    "raw",
+    encoder.encode(secret),
+    { name: "HMAC", hash: "SHA-256" },
+    false,
+    ["sign"],
+  );
+  return base64Url(await crypto.subtle.sign("HMAC", key, encoder.encode(payload)));
+}
+
+export async function createResumeToken(
+  submissionId: string,
+  secret: string,
+  now = Date.now(),
+): Promise<string> {
+  const expires = Math.floor(now / 1000) + RESUME_TOKEN_TTL_DAYS * 24 * 60 * 60;
+  const payload = `${submissionId}.${expires}`;
+  return `${payload}.${await sign(payload, secret)}`;
+}
+
+// The submission id the token was issued for, or null when it is malformed,
+// tampered with or expired
+export async function verifyResumeToken(
+  token: string,
+  secret: string,
+  now = Date.now(),
+): Promise<string | null> {
+  const parts = token.split(".");
+  if (parts.length !== 3) return null;
+  const [submissionId, expires, signature] = parts;
+
+  const expected = await sign(`${submissionId}.${expires}`, secret);
+  // Compare every character so the time taken does not reveal how much matched
+  let diff = expected.length ^ signature.length;
+  for (let i = 0; i < expected.length; i++) {
+    diff |= expected.charCodeAt(i) ^ (signature.charCodeAt(i) || 0);
+  }
+  if (diff !== 0) return null;
+
+  const expiresAt = Number(expires);
+  if (!Number.isInteger(expiresAt) || expiresAt * 1000 < now) return null;
+  return submissionId;
+}
@@ -0,0 +1,303 @@
+// Recommendation scoring shared by the React app and the edge functions.
+// This module must stay pure: no Supabase client, no Deno or DOM globals, so
+// that the browser and Deno produce identical rankings from the same data.
+
+import { createVisibility, type Answers, type ConditionalQuestion } from "./conditions.ts";
+import { currentAnswer, optionLabels, type StoredOptions } from "./options.ts";
+
+export interface MatrixRow {
+  question_id: string;
+  use_case_id: string;
+  triggering_answer: string;
+  weight: number | null;
+}
+
+export interface ResponseRow {
+  question_id: string;
+  answer: string | string[];
+}
+
+export type ScoringQuestion = ConditionalQuestion & {
+  question_type?: string;
+  options?: StoredOptions;
+};
+
+export interface ScoreContribution {
+  question_id: string;
+  answer: string;
+  weight: number;
+}
+
+export interface UseCaseScore {
+  use_case_id: string;
+  score: number;
+  // Highest score the use case could reach in this questionnaire version
+  max_score: number;
+  contributions: ScoreContribution[];
+}
+
+export type ScoredUseCase<T> = T & {
+  score: number;
+  max_score: number;
+  contributions: ScoreContribution[];
+};
+
+export type RankingStrategy = "raw" | "normalized";
+
+// Stored per questionnaire version in questionnaires.scoring_settings
+// (20260219000000_add_scoring_settings.sql)
+export interface ScoringSettings {
+  // Minimum total weight a use case needs before it is recommended
+  min_score: number;
+  // Minimum score as a percentage of the use case's max_score
+  min_percent: number;
+  // Most use cases recommended per engagement category; null for no cap
+  top_n_per_phase: number | null;
+  // "raw" ranks by total weight; "normalized" by score / max_score, so use
+  // cases with many mappings do not crowd out the rest
+  ranking: RankingStrategy;
+}
+
+// Default minimum total weight a use case needs before it is recommended
+export const MIN_SCORE = 3;
+
+export const DEFAULT_SCORING_SETTINGS: ScoringSettings = {
+  min_score: MIN_SCORE,
+  min_percent: 0,
+  top_n_per_phase: null,
+  ranking: "raw",
+};
+
+export const RANKING_STRATEGIES: RankingStrategy[] = ["raw", "normalized"];
+
+// Same as the column default in 20260208100000_add_decision_matrix_weights.sql
+export const DEFAULT_WEIGHT = 2;
+
+function matrixKey(questionId: string, answer: string): string {
+  return `${questionId}\u0000${answer}`;
+}
+
+const isWholeNumber = (v: unknown, min: number): v is number =>
+  typeof v === "number" && Number.isInteger(v) && v >= min;
+
+const isPercent = (v: unknown): v is number => typeof v === "number" && v >= 0 && v <= 100;
+
+/** Every problem with a scoring settings object; empty when it is valid. */
+export function scoringSettingsErrors(value: unknown): string[] {
+  if (typeof value !== "object" || value === null || Array.isArray(value)) {
+    return ["Scoring settings must be an object"];
+  }
+  const s = value as Record<string, unknown>;
+  const errors: string[] = [];
+  for (const key of Object.keys(s)) {
+    if (!(key in DEFAULT_SCORING_SETTINGS)) errors.push(`Unknown scoring setting "${key}"`);
+  }
+  if (s.min_score !== undefined && !isWholeNumber(s.min_score, 0)) {
+    errors.push("Minimum score must be a whole number ≥ 0");
+  }
+  if (s.min_percent !== undefined && !isPercent(s.min_percent)) {
+    errors.push("Minimum percentage must be between 0 and 100");
+  }
+  if (s.top_n_per_phase !== undefined && s.top_n_per_phase !== null && !isWholeNumber(s.top_n_per_phase, 1)) {
+    errors.push("Top N per phase must be a whole number ≥ 1, or empty for no cap");
+  }
+  if (s.ranking !== undefined && !RANKING_STRATEGIES.includes(s.ranking as RankingStrategy)) {
+    errors.push(`Ranking must be one of ${RANKING_STRATEGIES.join(", ")}`);
+  }
+  return errors;
+}
+
+/**
+ * Reads stored scoring settings. Missing or invalid keys fall back to
+ * DEFAULT_SCORING_SETTINGS, so versions saved before settings existed keep
+ * scoring as they always did.
+ */
+export function scoringSettings(stored: unknown): ScoringSettings {
+  const s = (typeof stored === "object" && stored !== null ? stored : {}) as Record<string, unknown>;
+  return {
+    min_score: isWholeNumber(s.min_score, 0) ? s.min_score : DEFAULT_SCORING_SETTINGS.min_score,
+    min_percent: isPercent(s.min_percent) ? s.min_percent : DEFAULT_SCORING_SETTINGS.min_percent,
+    top_n_per_phase: s.top_n_per_phase === null || isWholeNumber(s.top_n_per_phase, 1)
+      ? s.top_n_per_phase
+      : DEFAULT_SCORING_SETTINGS.top_n_per_phase,
+    ranking: RANKING_STRATEGIES.includes(s.ranking as RankingStrategy)
+      ? s.ranking as RankingStrategy
+      : DEFAULT_SCORING_SETTINGS.ranking,
+  };
+}
+
+export function answersOf(answer: string | string[] | null | undefined): string[] {
+  if (answer === null || answer === undefined) return [];
+  return Array.isArray(answer) ? answer : [answer];
+}
+
+/**
+ * Highest score each use case could reach: the best single answer of every
+ * MultipleChoice / YesNo question plus every option of every Checkbox
+ * question. Visibility conditions are ignored, so this is an upper bound and
+ * a use case below the minimum score here can never be recommended.
+ */
+export function maxAchievableScores(questions: ScoringQuestion[], matrix: MatrixRow[]): Map<string, number> {
+  const byQuestion = new Map<string, MatrixRow[]>();
+  for (const row of matrix) {
+    const rows = byQuestion.get(row.question_id);
+    if (rows) rows.push(row);
+    else byQuestion.set(row.question_id, [row]);
+  }
+
+  const totals = new Map<string, number>();
+  for (const question of questions) {
+    const options = new Set(optionLabels({ question_type: question.question_type ?? "", options: question.options }));
+    // use case -> answer -> weight
+    const weights = new Map<string, Map<string, number>>();
+    for (const row of byQuestion.get(question.id) ?? []) {
+      if (!options.has(row.triggering_answer)) continue;
+      const perAnswer = weights.get(row.use_case_id) ?? new Map<string, number>();
+      perAnswer.set(row.triggering_answer, (perAnswer.get(row.triggering_answer) ?? 0) + (row.weight ?? DEFAULT_WEIGHT));
+      weights.set(row.use_case_id, perAnswer);
+    }
+    for (const [useCaseId, perAnswer] of weights) {
+      const values = [...perAnswer.values()];
+      const best = question.question_type === "Checkbox"
+        ? values.reduce((a, b) => a + b, 0)
+        : Math.max(...values);
+      totals.set(useCaseId, (totals.get(useCaseId) ?? 0) + best);
+    }
+  }
+  return totals;
+}
+
+const relevance = (s: UseCaseScore) => (s.max_score > 0 ? s.score / s.max_score : 0);
+
+/**
+ * Sums the matrix weights triggered by each answer and returns the use cases
+ * passing the settings' thresholds, best first. Ties are broken by use case
+ * id so the order does not depend on the order rows came back from the
+ * database. Answers to questions hidden by their visibility rule are ignored;
+ * questions not passed in are treated as always visible. Answers given under
+ * a label an option has since been renamed from count as the current label.
+ *
+ * maxScores defaults to maxAchievableScores() over the questions and matrix
+ * passed in; callers scoring only the answered questions must pass the
+ * version-wide figures instead.
+ */
+export function scoreResponses(
+  responses: ResponseRow[],
+  matrix: MatrixRow[],
+  questions: ScoringQuestion[] = [],
+  settings: ScoringSettings = DEFAULT_SCORING_SETTINGS,
+  maxScores: Map<string, number> = maxAchievableScores(questions, matrix),
+): UseCaseScore[] {
+  const questionById = new Map(questions.map((q) => [q.id, q]));
+  const current = responses.map((r) => {
+    const question = questionById.get(r.question_id);
+    if (!question?.options) return r;
+    return { ...r, answer: currentAnswer({ question_type: question.question_type ?? "", options: question.options }, r.answer) };
+  });
+  const answers: Answers = Object.fromEntries(current.map((r) => [r.question_id, r.answer]));
+  const isVisible = createVisibility(questions, answers);
+
+  const index = new Map<string, MatrixRow[]>();
+  for (const row of matrix) {
+    const key = matrixKey(row.question_id, row.triggering_answer);
+    const rows = index.get(key);
+    if (rows) rows.push(row);
+    else index.set(key, [row]);
+  }
+
+  const scores = new Map<string, UseCaseScore>();
+  for (const response of current) {
+    if (!isVisible(response.question_id)) continue;
+    for (const answer of answersOf(response.answer)) {
+      for (const row of index.get(matrixKey(response.question_id, answer)) ?? []) {
+        const weight = row.weight ?? DEFAULT_WEIGHT;
+        let entry = scores.get(row.use_case_id);
+        if (!entry) {
+          entry = { use_case_id: row.use_case_id, score: 0, max_score: maxScores.get(row.use_case_id) ?? 0, contributions: [] };
+          scores.set(row.use_case_id, entry);
+        }
+        entry.score += weight;
+        entry.contributions.push({ question_id: response.question_id, answer, weight });
+      }
+    }
+  }
+
+  return [...scores.values()]
+    .filter((s) => s.score >= settings.min_score && s.score * 100 >= settings.min_percent * s.max_score)
+    .sort((a, b) =>
+      (settings.ranking === "normalized" ? relevance(b) - relevance(a) : 0) ||
+      b.score - a.score ||
+      (a.use_case_id < b.use_case_id ? -1 : a.use_case_id > b.use_case_id ? 1 : 0)
+    );
+}
+
+/**
+ * Joins ranked scores with their use case records, keeping the ranking order
+ * and dropping scores whose use case no longer exists. With top_n_per_phase
+ * set, only the best N of each engagement category are kept; use cases
+ * without a category are capped as a group of their own.
+ */
+export function rankUseCases<T extends { id: string; engagement_category?: string | null }>(
+  scores: UseCaseScore[],
+  useCases: T[],
+  settings: ScoringSettings = DEFAULT_SCORING_SETTINGS,
+): ScoredUseCase<T>[] {
+  const byId = new Map(useCases.map((uc) => [uc.id, uc]));
+  const perPhase = new Map<string | null, number>();
+  const ranked: ScoredUseCase<T>[] = [];
+  for (const s of scores) {
+    const uc = byId.get(s.use_case_id);
+    if (!uc) continue;
+    const phase = uc.engagement_category ?? null;
+    const count = perPhase.get(phase) ?? 0;
+    if (settings.top_n_per_phase !== null && count >= settings.top_n_per_phase) continue;
+    perPhase.set(phase, count + 1);
+    ranked.push({ ...uc, score: s.score, max_score: s.max_score, contributions: s.contributions });
+  }
+  return ranked;
+}
+
+export interface QuestionContribution {
+  question_id: string;
+  answers: string[];
+  weight: number;
+}
+
+/**
+ * A use case's contributions merged per question (a Checkbox question can
+ * contribute several answers), strongest first, for explaining why it was
+ * recommended. Questions with equal weight keep the order they were answered.
+ */
+export function contributionsByQuestion(contributions: ScoreContribution[] | undefined): QuestionContribution[] {
+  const byQuestion = new Map<string, QuestionContribution>();
+  for (const c of contributions ?? []) {
+    const entry = byQuestion.get(c.question_id);
+    if (entry) {
+      entry.answers.push(c.answer);
+      entry.weight += c.weight;
+    } else {
+      byQuestion.set(c.question_id, { question_id: c.question_id, answers: [c.answer], weight: c.weight });
+    }
+  }
+  return [...byQuestion.values()].sort((a, b) => b.weight - a.weight);
+}
+
+/**
+ * Fingerprint of a questionnaire version's whole decision matrix. Stored
+ * alongside each results snapshot so later matrix edits can be told apart
+ * from the matrix a submission was scored against.
+ */
+export function matrixVersion(matrix: MatrixRow[]): string {
+  const canonical = matrix
+    .map((r) => `${r.question_id}|${r.triggering_answer}|${r.use_case_id}|${r.weight ?? DEFAULT_WEIGHT}`)
+    .sort()
+    .join("\n");
+
+  // 32-bit FNV-1a
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < canonical.length; i++) {
+    hash ^= canonical.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193) >>> 0;
+  }
+  return `${matrix.length}-${hash.toString(16).padStart(8, "0")}`;
+}
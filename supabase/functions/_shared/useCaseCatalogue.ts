@@ -0,0 +1,162 @@
+// Spreadsheet round-trip for the use case catalogue: the column layout used
+// for export, and the diff an uploaded sheet would apply on import.
+
+import { isBlankRecord } from "./csv.ts";
+
+export const USE_CASE_COLUMNS = [
+  "use_case_number",
+  "title",
+  "category",
+  "sub_category",
+  "engagement_category",
+  "why_it_matters",
+  "whats_included",
+  "key_deliverables",
+  "how_its_delivered",
+] as const;
+
+export type UseCaseColumn = typeof USE_CASE_COLUMNS[number];
+
+export type CatalogueUseCase = { id: string } & {
+  [K in UseCaseColumn]: K extends "use_case_number" ? number | null
+    : K extends "title" | "category" | "sub_category" ? string
+    : string | null;
+};
+
+export type UseCaseFields = Partial<Omit<CatalogueUseCase, "id">>;
+
+// Headers as practice leads tend to type them, after recordsFromRows() normalisation
+export const USE_CASE_HEADER_ALIASES: Record<string, UseCaseColumn> = {
+  "#": "use_case_number",
+  "use_case_#": "use_case_number",
+  "number": "use_case_number",
+  "subcategory": "sub_category",
+  "engagement": "engagement_category",
+  "what_s_included": "whats_included",
+  "how_it_s_delivered": "how_its_delivered",
+};
+
+const REQUIRED: UseCaseColumn[] = ["title", "category", "sub_category"];
+const ENGAGEMENT_CATEGORIES = ["A", "B", "C"];
+
+export type CatalogueRowStatus = "new" | "changed" | "unchanged" | "error";
+
+export interface CatalogueRow {
+  // 1-based spreadsheet row, counting the header
+  line: number;
+  status: CatalogueRowStatus;
+  title: string;
+  existingId: string | null;
+  fields: UseCaseFields;
+  changed: UseCaseColumn[];
+  errors: string[];
+}
+
+export function catalogueRows(useCases: CatalogueUseCase[]): (string | number | null)[][] {
+  const sorted = [...useCases].sort((a, b) =>
+    (a.use_case_number ?? Infinity) - (b.use_case_number ?? Infinity) || a.title.localeCompare(b.title)
+  );
+  return [[...USE_CASE_COLUMNS], ...sorted.map((uc) => USE_CASE_COLUMNS.map((c) => uc[c]))];
+}
+
+const normaliseTitle = (title: string) => title.trim().toLowerCase();
+
+/**
+ * Compares uploaded records with the catalogue. A row matches an existing use
+ * case by use_case_number, or by title when the number is blank or the
+ * titled row has no number yet. Columns missing from the sheet are left
+ * untouched; empty optional cells clear the field, except a blank number on
+ * a title match, which keeps the use case's existing number.
+ */
+export function diffCatalogue(
+  headers: string[],
+  records: Record<string, string>[],
+  existing: CatalogueUseCase[],
+): { rows: CatalogueRow[]; missingColumns: UseCaseColumn[] } {
+  const missingColumns = REQUIRED.filter((c) => !headers.includes(c));
+  const present = USE_CASE_COLUMNS.filter((c) => headers.includes(c));
+  const byNumber = new Map(existing.filter((uc) => uc.use_case_number != null).map((uc) => [uc.use_case_number, uc]));
+  const byTitle = new Map(existing.map((uc) => [normaliseTitle(uc.title), uc]));
+  const seenNumbers = new Map<number, number>();
+  const seenTitles = new Map<string, number>();
+
+  const rows = records.flatMap((record, i): CatalogueRow[] => {
+    if (isBlankRecord(record)) return [];
+    // Records follow the sheet's rows after the header, blank ones included
+    const line = i + 2;
+    const errors: string[] = [];
+    const fields: UseCaseFields = {};
+
+    for (const column of present) {
+      const value = record[column] ?? "";
+      if (column === "use_case_number") {
+        if (value === "") {
+          fields.use_case_number = null;
+        } else if (!/^\d+$/.test(value) || Number(value) === 0) {
+          errors.push(`Use case # "${value}" is not a positive whole number`);
+        } else {
+          fields.use_case_number = Number(value);
+        }
+      } else if (REQUIRED.includes(column)) {
+        if (value === "") errors.push(`${column} is required`);
+        else (fields as Record<string, string>)[column] = value;
+      } else if (column === "engagement_category") {
+        const category = value.toUpperCase();
+        if (category !== "" && !ENGAGEMENT_CATEGORIES.includes(category)) {
+          errors.push(`Engagement category "${value}" must be A, B, C or blank`);
+        }
+        fields.engagement_category = category || null;
+      } else {
+        (fields as Record<string, string | null>)[column] = value || null;
+      }
+    }
+
+    const title = record.title ?? "";
+    if (fields.use_case_number != null) {
+      const first = seenNumbers.get(fields.use_case_number);
+      if (first) errors.push(`Use case #${fields.use_case_number} also appears on row ${first}`);
+      else seenNumbers.set(fields.use_case_number, line);
+    }
+    if (title) {
+      const first = seenTitles.get(normaliseTitle(title));
+      if (first) errors.push(`"${title}" also appears on row ${first}`);
+      else seenTitles.set(normaliseTitle(title), line);
+    }
+
+    const titleMatch = title ? byTitle.get(normaliseTitle(title)) : undefined;
+    const match = (fields.use_case_number != null ? byNumber.get(fields.use_case_number) : undefined) ??
+      (titleMatch && (titleMatch.use_case_number == null || fields.use_case_number == null) ? titleMatch : undefined);
+    if (match && fields.use_case_number === null) delete fields.use_case_number;
+
+    const changed = match
+      ? present.filter((c) => c in fields && (fields[c] ?? null) !== (match[c] ?? null))
+      : [];
+
+    return [{
+      line,
+      status: errors.length > 0 || missingColumns.length > 0
+        ? "error"
+        : !match ? "new" : changed.length > 0 ? "changed" : "unchanged",
+      title,
+      existingId: match?.id ?? null,
+      fields,
+      changed,
+      errors,
+    }];
+  });
+
+  // Two sheet rows resolving to the same use case would overwrite each other
+  const claimed = new Map<string, number>();
+  for (const row of rows) {
+    if (!row.existingId || row.status === "error") continue;
+    const first = claimed.get(row.existingId);
+    if (first) {
+      row.status = "error";
+      row.errors.push(`Matches the same use case as row ${first}`);
+    } else {
+      claimed.set(row.existingId, row.line);
+    }
+  }
+
+  return { rows, missingColumns };
+}
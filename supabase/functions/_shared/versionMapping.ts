@@ -0,0 +1,36 @@
+// Answers belong to the questionnaire version the respondent saw. A draft
+// cloned from it has copies of the same questions under new ids, and nothing
+// links a copy to its original, so the admin tools match them by section
+// title and question text to score past answers against the draft.
+
+export interface VersionQuestion {
+  id: string;
+  question_text: string;
+  section_title: string;
+}
+
+const questionKey = (q: VersionQuestion) =>
+  `${q.section_title.trim().toLowerCase()}\u0000${q.question_text.trim().toLowerCase()}`;
+
+// Question id in `from` -> id of the matching question in `to`
+export function questionIdMap(from: VersionQuestion[], to: VersionQuestion[]): Map<string, string> {
+  const byKey = new Map(to.map((q) => [questionKey(q), q.id]));
+  const map = new Map<string, string>();
+  for (const q of from) {
+    const target = byKey.get(questionKey(q));
+    if (target) map.set(q.id, target);
+  }
+  return map;
+}
+
+// Responses moved onto the target version; answers to questions it no longer
+// has are dropped
+export function remapResponses<T extends { question_id: string }>(
+  responses: T[],
+  idMap: Map<string, string>,
+): T[] {
+  return responses.flatMap((r) => {
+    const target = idMap.get(r.question_id);
+    return target ? [{ ...r, question_id: target }] : [];
+  });
+}
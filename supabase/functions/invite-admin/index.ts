@@ -0,0 +1,81 @@
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { serve } from "https://deno.land/std@0.177.0/http/server.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers":
+    "authorization, x-client-info, apikey, content-type",
+};
+
+const ROLES = ["owner", "content_editor", "matrix_editor", "sales_viewer"];
+
+function jsonResponse(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+  });
+}
+
+// Invites a new admin by email and gives them a role. Sign-up is disabled, so
+// this is the only way in; the auth admin API needs the service role, which
+// is why it runs here rather than in the browser. Only owners may call it.
+serve(async (req: Request) => {
+  if (req.method === "OPTIONS") {
+    return new Response("ok", { headers: corsHeaders });
+  }
+
+  try {
+    const { email, role, redirect_to } = await req.json();
+    const address = typeof email === "string" ? email.trim().toLowerCase() : "";
+
+    if (!address || !ROLES.includes(role)) {
+      return jsonResponse({ error: "email and a valid role are required" }, 400);
+    }
+
+    const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+    const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    // 1. The caller must be a signed-in owner
+    const jwt = (req.headers.get("Authorization") ?? "").replace(/^Bearer\s+/i, "");
+    const { data: { user: caller } } = await supabase.auth.getUser(jwt);
+    if (!caller) {
+      return jsonResponse({ error: "Not signed in" }, 401);
+    }
+
+    const { data: callerRole } = await supabase
+      .from("admin_users")
+      .select("role")
+      .eq("user_id", caller.id)
+      .maybeSingle();
+
+    if (callerRole?.role !== "owner") {
+      return jsonResponse({ error: "Only owners can invite admins" }, 403);
+    }
+
+    // 2. Send the invitation, which creates the auth user
+    const { data: invited, error: inviteErr } = await supabase.auth.admin.inviteUserByEmail(
+      address,
+      typeof redirect_to === "string" ? { redirectTo: redirect_to } : undefined,
+    );
+
+    if (inviteErr || !invited?.user) {
+      return jsonResponse({ error: inviteErr?.message ?? "Failed to send the invitation" }, 400);
+    }
+
+    // 3. Record the role
+    const { error: roleErr } = await supabase
+      .from("admin_users")
+      .upsert({ user_id: invited.user.id, email: address, role, invited_by: caller.id });
+
+    if (roleErr) {
+      console.error("Failed to store admin role:", roleErr);
+      return jsonResponse({ error: "Invitation sent, but the role could not be stored" }, 500);
+    }
+
+    return jsonResponse({ success: true, user_id: invited.user.id });
+  } catch (err) {
+    console.error("Unexpected error:", err);
+    return jsonResponse({ error: "Internal server error" }, 500);
+  }
+});
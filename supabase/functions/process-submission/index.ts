@@ -1,10 +1,22 @@
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
 import { serve } from "https://deno.land/std@0.177.0/http/server.ts";
+import {
+  contributionsByQuestion,
+  matrixVersion,
+  maxAchievableScores,
+  rankUseCases,
+  scoreResponses,
+  scoringSettings,
+  type MatrixRow,
+  type ScoredUseCase,
+} from "../_shared/scoring.ts";
+import type { ConditionalQuestion } from "../_shared/conditions.ts";
+import type { StoredOptions } from "../_shared/options.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
   "Access-Control-Allow-Headers":
-    "authorization, x-client-info, apikey, content-type",
+    "authorization, x-client-info, apikey, content-type, x-submission-token",
 };
 
 interface UseCase {
@@ -18,7 +30,34 @@ interface UseCase {
   why_it_matters: string | null;
   how_its_delivered: string | null;
   use_case_number: number | null;
-  score: number;
+}
+
+type RecommendedUseCase = ScoredUseCase<UseCase>;
+
+interface ResponseWithQuestion {
+  question_id: string;
+  answer: string | string[];
+  questions: (ConditionalQuestion & {
+    question_text: string;
+    question_type: string;
+    options: StoredOptions;
+    sections: { title: string } | null;
+    decision_matrix: MatrixRow[];
+  }) | null;
+}
+
+// The submission's questionnaire version with every question and mapping,
+// for the scoring settings and each use case's highest achievable score
+interface VersionScoring {
+  scoring_settings: unknown;
+  sections: {
+    questions: {
+      id: string;
+      question_type: string;
+      options: StoredOptions;
+      decision_matrix: MatrixRow[];
+    }[];
+  }[];
 }
 
 interface CapturedResponse {
@@ -53,97 +92,135 @@ serve(async (req: Request) => {
       .eq("id", submission_id)
       .single();
 
-    if (subErr || !submission) {
+    // The service role bypasses row level security, so the caller has to
+    // prove the submission is theirs with its secret token
+    if (subErr || !submission || submission.access_token !== req.headers.get("x-submission-token")) {
       return new Response(
         JSON.stringify({ error: "Submission not found" }),
         { status: 404, headers: { ...corsHeaders, "Content-Type": "application/json" } }
       );
     }
 
-    // 2. Fetch all responses with question text
-    const { data: responses, error: respErr } = await supabase
+    // Only finalized submissions are scored
+    if (submission.status === "draft") {
+      return new Response(
+        JSON.stringify({ error: "Submission has not been completed" }),
+        { status: 409, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    // 2. Fetch all responses with question text and the decision matrix rows
+    //    of every answered question, in a single query
+    const { data: responseRows, error: respErr } = await supabase
       .from("responses")
-      .select("question_id, answer, questions(question_text, sections(title))")
+      .select("question_id, answer, questions(id, question_text, question_type, options, condition_rule, condition_question_id, condition_answer, sections(title), decision_matrix(question_id, use_case_id, triggering_answer, weight))")
       .eq("submission_id", submission_id);
 
-    if (respErr || !responses) {
+    if (respErr || !responseRows) {
       return new Response(
         JSON.stringify({ error: "Failed to fetch responses" }),
         { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
       );
     }
+    const responses = responseRows as ResponseWithQuestion[];
 
     // Build captured responses list
-    // deno-lint-ignore no-explicit-any
-    const capturedResponses: CapturedResponse[] = responses.map((r: any) => ({
+    const capturedResponses: CapturedResponse[] = responses.map((r) => ({
       sectionTitle: r.questions?.sections?.title || "Unknown Section",
       questionText: r.questions?.question_text || "Unknown Question",
       answer: r.answer,
     }));
-
-    // 3. Score use cases via decision matrix WITH WEIGHTS
-    const useCaseScores: Record<string, number> = {};
-
-    for (const response of responses) {
-      const answerValue = response.answer;
-      const answersToCheck: string[] = Array.isArray(answerValue)
-        ? answerValue
-        : [answerValue];
-
-      for (const answer of answersToCheck) {
-        const { data: matches } = await supabase
-          .from("decision_matrix")
-          .select("use_case_id, weight")
-          .eq("question_id", response.question_id)
-          .eq("triggering_answer", answer);
-
-        if (matches) {
-          for (const match of matches) {
-            // deno-lint-ignore no-explicit-any
-            const weight = (match as any).weight || 1;
-            useCaseScores[match.use_case_id] =
-              (useCaseScores[match.use_case_id] || 0) + weight;
-          }
-        }
-      }
+    const questionTexts = new Map(responses.map((r) => [r.question_id, r.questions?.question_text || "Unknown Question"]));
+
+    // 3. Processed or emailed submissions return their stored snapshot, so
+    //    repeat calls never rescore or re-send the email
+    const { data: existingResult } = await supabase
+      .from("submission_results")
+      .select("recommended_use_cases")
+      .eq("submission_id", submission_id)
+      .maybeSingle();
+
+    if (existingResult) {
+      return resultsResponse(existingResult.recommended_use_cases, capturedResponses);
     }
 
-    // 4. Filter by minimum score and sort
-    const MIN_SCORE = 3;
-    const sortedEntries = Object.entries(useCaseScores)
-      .filter(([, score]) => score >= MIN_SCORE)
-      .sort(([, a], [, b]) => b - a);
-
-    const sortedIds = sortedEntries.map(([id]) => id);
-    const scoreMap = Object.fromEntries(sortedEntries);
+    // 4. Score the matrix rows loaded with the responses, then filter and
+    //    rank them by the version's scoring settings
+    const { data: versionRow, error: versionErr } = await supabase
+      .from("questionnaires")
+      .select("scoring_settings, sections(questions(id, question_type, options, decision_matrix(question_id, use_case_id, triggering_answer, weight)))")
+      .eq("id", submission.questionnaire_id)
+      .maybeSingle();
 
-    let recommendedUseCases: UseCase[] = [];
-
-    if (sortedIds.length > 0) {
+    if (versionErr) {
+      return new Response(
+        JSON.stringify({ error: "Failed to fetch scoring settings" }),
+        { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+    const version = versionRow as VersionScoring | null;
+    const settings = scoringSettings(version?.scoring_settings);
+    const versionQuestions = version?.sections.flatMap((s) => s.questions) ?? [];
+    const versionMatrix = versionQuestions.flatMap((q) => q.decision_matrix);
+    const maxScores = maxAchievableScores(versionQuestions, versionMatrix);
+
+    const matrix = responses.flatMap((r) => r.questions?.decision_matrix ?? []);
+    const questions = responses.flatMap((r) => (r.questions ? [r.questions] : []));
+    const scores = scoreResponses(responses, matrix, questions, settings, maxScores);
+
+    let recommendedUseCases: RecommendedUseCase[] = [];
+    if (scores.length > 0) {
       const { data: matchedUseCases } = await supabase
         .from("use_cases")
         .select("*")
-        .in("id", sortedIds);
+        .in("id", scores.map((s) => s.use_case_id));
 
       if (matchedUseCases) {
-        recommendedUseCases = sortedIds
-          // deno-lint-ignore no-explicit-any
-          .map((id) => {
-            // deno-lint-ignore no-explicit-any
-            const uc = matchedUseCases.find((u: any) => u.id === id);
-            if (!uc) return undefined;
-            return { ...uc, score: scoreMap[id] || 0 } as UseCase;
-          })
-          .filter((uc): uc is UseCase => uc !== undefined);
+        recommendedUseCases = rankUseCases<UseCase>(scores, matchedUseCases, settings);
+      }
+    }
+
+    // 5. Store the snapshot. The unique submission_id makes a concurrent call
+    //    lose here, in which case it returns the winner's snapshot unemailed.
+    const { error: snapshotErr } = await supabase
+      .from("submission_results")
+      .insert({
+        submission_id,
+        recommended_use_cases: recommendedUseCases,
+        questionnaire_id: submission.questionnaire_id,
+        matrix_version: matrixVersion(versionMatrix),
+      });
+
+    if (snapshotErr) {
+      if (snapshotErr.code === "23505") {
+        const { data: storedResult } = await supabase
+          .from("submission_results")
+          .select("recommended_use_cases")
+          .eq("submission_id", submission_id)
+          .single();
+
+        return resultsResponse(storedResult?.recommended_use_cases ?? recommendedUseCases, capturedResponses);
       }
+
+      console.error("Failed to store results:", snapshotErr);
+      return new Response(
+        JSON.stringify({ error: "Failed to store results" }),
+        { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
     }
 
-    // 5. Send email via Resend
+    await supabase
+      .from("submissions")
+      .update({ status: "processed" })
+      .eq("id", submission_id)
+      .eq("status", "completed");
+
+    // 6. Send email via Resend
     const resendApiKey = Deno.env.get("RESEND_API_KEY");
     const adminEmail = Deno.env.get("ADMIN_EMAIL_ADDRESS");
 
     if (resendApiKey && adminEmail) {
-      const emailHtml = buildEmailHtml(submission, recommendedUseCases, capturedResponses);
+      const emailHtml = buildEmailHtml(submission, recommendedUseCases, capturedResponses, questionTexts);
 
       try {
         const emailRes = await fetch("https://api.resend.com/emails", {
@@ -163,21 +240,20 @@ serve(async (req: Request) => {
         if (!emailRes.ok) {
           const errBody = await emailRes.text();
           console.error("Resend API error:", errBody);
+        } else {
+          await supabase
+            .from("submissions")
+            .update({ status: "emailed" })
+            .eq("id", submission_id)
+            .eq("status", "processed");
         }
       } catch (emailErr) {
         console.error("Failed to send email:", emailErr);
       }
     }
 
-    // 6. Return ALL recommendations + captured responses
-    return new Response(
-      JSON.stringify({
-        success: true,
-        recommended_use_cases: recommendedUseCases,
-        captured_responses: capturedResponses,
-      }),
-      { headers: { ...corsHeaders, "Content-Type": "application/json" } }
-    );
+    // 7. Return ALL recommendations + captured responses
+    return resultsResponse(recommendedUseCases, capturedResponses);
   } catch (err) {
     console.error("Unexpected error:", err);
     return new Response(
@@ -187,6 +263,20 @@ serve(async (req: Request) => {
   }
 });
 
+function resultsResponse(
+  recommendedUseCases: RecommendedUseCase[],
+  capturedResponses: CapturedResponse[],
+): Response {
+  return new Response(
+    JSON.stringify({
+      success: true,
+      recommended_use_cases: recommendedUseCases,
+      captured_responses: capturedResponses,
+    }),
+    { headers: { ...corsHeaders, "Content-Type": "application/json" } }
+  );
+}
+
 // Phase definitions for roadmap grouping
 const phaseConfig: Record<string, { label: string; description: string; color: string; textColor: string }> = {
   A: { label: "Phase 1: Quick Wins", description: "Fixed-scope engagements — ready to start immediately", color: "#dcfce7", textColor: "#166534" },
@@ -211,13 +301,23 @@ function relevanceBadgeHtml(score: number, maxScore: number): string {
   return `<span style="display:inline-block;background:${bg};color:${color};padding:2px 10px;border-radius:12px;font-size:11px;font-weight:600;">${pct}% match</span>`;
 }
 
+// One line naming the answers that produced a use case, strongest first
+function becauseHtml(uc: RecommendedUseCase, questionTexts: Map<string, string>): string {
+  const reasons = contributionsByQuestion(uc.contributions);
+  if (reasons.length === 0) return "";
+  const items = reasons
+    .map((r) => `${questionTexts.get(r.question_id) ?? "Unknown Question"} &rarr; <strong>${r.answers.join(", ")}</strong> (+${r.weight})`)
+    .join("; ");
+  return `<p style="margin:4px 0 0;font-size:12px;color:#6b7280;line-height:1.4;">Because: ${items}</p>`;
+}
+
 // deno-lint-ignore no-explicit-any
-function buildEmailHtml(submission: any, useCases: UseCase[], capturedResponses: CapturedResponse[]): string {
+function buildEmailHtml(submission: any, useCases: RecommendedUseCase[], capturedResponses: CapturedResponse[], questionTexts: Map<string, string>): string {
   const maxScore = useCases.length > 0 ? Math.max(...useCases.map(uc => uc.score), 1) : 1;
 
   // Group by engagement category for roadmap
   const phaseOrder = ["A", "B", "C"];
-  const grouped: Record<string, UseCase[]> = {};
+  const grouped: Record<string, RecommendedUseCase[]> = {};
   for (const uc of useCases) {
     const key = uc.engagement_category || "B";
     if (!grouped[key]) grouped[key] = [];
@@ -232,7 +332,7 @@ function buildEmailHtml(submission: any, useCases: UseCase[], capturedResponses:
     const config = phaseConfig[phaseKey];
 
     // Group by sub_category within phase
-    const subGroups: Record<string, UseCase[]> = {};
+    const subGroups: Record<string, RecommendedUseCase[]> = {};
     for (const uc of phaseUCs) {
       const sg = uc.sub_category || "Other";
       if (!subGroups[sg]) subGroups[sg] = [];
@@ -263,6 +363,7 @@ function buildEmailHtml(submission: any, useCases: UseCase[], capturedResponses:
             <div style="margin-bottom:6px;">
               <span style="font-weight:600;font-size:14px;color:#111827;">${uc.use_case_number ? `#${uc.use_case_number} &mdash; ` : ""}${uc.title}</span>
               <span style="margin-left:8px;">${relevanceBadgeHtml(uc.score, maxScore)}</span>
+              ${becauseHtml(uc, questionTexts)}
             </div>
             ${uc.why_it_matters ? `<div style="margin-top:8px;"><span style="font-size:11px;font-weight:700;color:#2563eb;text-transform:uppercase;">Why It Matters</span><p style="margin:2px 0 0;font-size:13px;color:#374151;line-height:1.5;">${uc.why_it_matters}</p></div>` : ""}
             ${uc.whats_included ? `<div style="margin-top:6px;"><span style="font-size:11px;font-weight:700;color:#6b7280;text-transform:uppercase;">What's Included</span><p style="margin:2px 0 0;font-size:13px;color:#4b5563;line-height:1.5;">${uc.whats_included}</p></div>` : ""}
@@ -276,6 +377,7 @@ function buildEmailHtml(submission: any, useCases: UseCase[], capturedResponses:
           <div style="padding:8px 20px;border-bottom:1px solid #f3f4f6;">
             <span style="font-size:13px;color:#374151;">${uc.use_case_number ? `#${uc.use_case_number} &mdash; ` : ""}${uc.title}</span>
             <span style="margin-left:6px;">${relevanceBadgeHtml(uc.score, maxScore)}</span>
+            ${becauseHtml(uc, questionTexts)}
           </div>`;
         }
       }
@@ -0,0 +1,61 @@
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { serve } from "https://deno.land/std@0.177.0/http/server.ts";
+import { verifyResumeToken } from "../_shared/resumeToken.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers":
+    "authorization, x-client-info, apikey, content-type",
+};
+
+function jsonResponse(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+  });
+}
+
+// Exchanges a resume link from send-resume-link for the submission's access
+// token, which the browser then keeps like the one it would have created
+serve(async (req: Request) => {
+  if (req.method === "OPTIONS") {
+    return new Response("ok", { headers: corsHeaders });
+  }
+
+  try {
+    const { token } = await req.json();
+    const secret = Deno.env.get("RESUME_TOKEN_SECRET");
+
+    if (!secret) {
+      return jsonResponse({ error: "Resume links are not configured" }, 503);
+    }
+
+    const submissionId = typeof token === "string" ? await verifyResumeToken(token, secret) : null;
+    if (!submissionId) {
+      return jsonResponse({ error: "This link is invalid or has expired" }, 404);
+    }
+
+    const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+    const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    const { data: submission } = await supabase
+      .from("submissions")
+      .select("id, status, access_token")
+      .eq("id", submissionId)
+      .maybeSingle();
+
+    if (!submission) {
+      return jsonResponse({ error: "This link is invalid or has expired" }, 404);
+    }
+
+    return jsonResponse({
+      submission_id: submission.id,
+      access_token: submission.access_token,
+      status: submission.status,
+    });
+  } catch (err) {
+    console.error("Unexpected error:", err);
+    return jsonResponse({ error: "Internal server error" }, 500);
+  }
+});
@@ -0,0 +1,136 @@
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { serve } from "https://deno.land/std@0.177.0/http/server.ts";
+import { createResumeToken, RESUME_TOKEN_TTL_DAYS } from "../_shared/resumeToken.ts";
+
+// A submission can be started with any address, so links are only ever
+// built from SITE_URL and sent at most once per cooldown
+const RESEND_COOLDOWN_MINUTES = 10;
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers":
+    "authorization, x-client-info, apikey, content-type, x-submission-token",
+};
+
+function jsonResponse(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+  });
+}
+
+// Emails the respondent a signed link back to their draft submission, so
+// they can stop and finish later or on another device
+serve(async (req: Request) => {
+  if (req.method === "OPTIONS") {
+    return new Response("ok", { headers: corsHeaders });
+  }
+
+  try {
+    const { submission_id } = await req.json();
+
+    if (!submission_id) {
+      return jsonResponse({ error: "submission_id is required" }, 400);
+    }
+
+    const resendApiKey = Deno.env.get("RESEND_API_KEY");
+    const secret = Deno.env.get("RESUME_TOKEN_SECRET");
+    const siteUrl = Deno.env.get("SITE_URL");
+    if (!resendApiKey || !secret || !siteUrl) {
+      return jsonResponse({ error: "Resume links are not configured" }, 503);
+    }
+
+    const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+    const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    // 1. Fetch the submission; as in process-submission the caller proves
+    //    it is theirs with its secret token
+    const { data: submission, error: subErr } = await supabase
+      .from("submissions")
+      .select("id, full_name, email, status, access_token, resume_link_sent_at")
+      .eq("id", submission_id)
+      .single();
+
+    if (subErr || !submission || submission.access_token !== req.headers.get("x-submission-token")) {
+      return jsonResponse({ error: "Submission not found" }, 404);
+    }
+
+    if (submission.status !== "draft") {
+      return jsonResponse({ error: "This questionnaire has already been submitted" }, 409);
+    }
+
+    // 2. Claim the send; the condition makes concurrent requests race for a
+    //    single row update rather than each sending an email
+    const cooldownStart = new Date(Date.now() - RESEND_COOLDOWN_MINUTES * 60 * 1000).toISOString();
+    const { data: claimed } = await supabase
+      .from("submissions")
+      .update({ resume_link_sent_at: new Date().toISOString() })
+      .eq("id", submission.id)
+      .or(`resume_link_sent_at.is.null,resume_link_sent_at.lt.${cooldownStart}`)
+      .select("id");
+
+    if (!claimed || claimed.length === 0) {
+      return jsonResponse(
+        { error: `A link was sent in the last ${RESEND_COOLDOWN_MINUTES} minutes. Please check your inbox.` },
+        429,
+      );
+    }
+
+    // 3. Email the link to the address given on the details form
+    const token = await createResumeToken(submission.id, secret);
+    const link = `${siteUrl.replace(/\/+$/, "")}/resume/${encodeURIComponent(token)}`;
+
+    const emailRes = await fetch("https://api.resend.com/emails", {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        Authorization: `Bearer ${resendApiKey}`,
+      },
+      body: JSON.stringify({
+        from: "SAP BTP Recommendations <onboarding@resend.dev>",
+        to: [submission.email],
+        subject: "Continue your SAP BTP questionnaire",
+        html: buildEmailHtml(submission.full_name, link),
+      }),
+    });
+
+    if (!emailRes.ok) {
+      console.error("Resend API error:", await emailRes.text());
+      // Nothing was sent, so do not hold the respondent to the cooldown
+      await supabase
+        .from("submissions")
+        .update({ resume_link_sent_at: submission.resume_link_sent_at })
+        .eq("id", submission.id);
+      return jsonResponse({ error: "Failed to send the email" }, 502);
+    }
+
+    return jsonResponse({ success: true, email: submission.email });
+  } catch (err) {
+    console.error("Unexpected error:", err);
+    return jsonResponse({ error: "Internal server error" }, 500);
+  }
+});
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+function buildEmailHtml(fullName: string, link: string): string {
+  return `
+    <div style="font-family:Arial,sans-serif;max-width:600px;margin:0 auto;color:#111827;">
+      <p>Hi ${escapeHtml(fullName)},</p>
+      <p>Your answers so far have been saved. Use the button below to pick up where you left off.</p>
+      <p style="margin:24px 0;">
+        <a href="${escapeHtml(link)}" style="background:#2563eb;color:#ffffff;padding:10px 20px;border-radius:8px;text-decoration:none;">Continue questionnaire</a>
+      </p>
+      <p style="font-size:12px;color:#6b7280;">
+        The link works for ${RESUME_TOKEN_TTL_DAYS} days. Anyone with it can see and change your answers, so please do not forward it.
+      </p>
+    </div>
+  `;
+}
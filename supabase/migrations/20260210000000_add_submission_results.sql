@@ -0,0 +1,16 @@
+-- Migration: Persist computed recommendations per submission
+-- Date: 2026-02-10
+
+-- One snapshot per submission, written by the process-submission edge function
+-- the first time the submission is scored. The results page and the email
+-- render from this snapshot, so later decision_matrix edits do not change a
+-- customer's roadmap after the fact.
+CREATE TABLE submission_results (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  submission_id uuid NOT NULL UNIQUE REFERENCES submissions(id) ON DELETE CASCADE,
+  -- Ranked use cases including their details, score and contributions
+  recommended_use_cases JSONB NOT NULL,
+  -- Fingerprint of the decision_matrix rows used for scoring
+  matrix_version TEXT NOT NULL,
+  computed_at TIMESTAMPTZ DEFAULT now()
+);
@@ -0,0 +1,70 @@
+-- Migration: Submission status lifecycle and server-side finalization
+-- Date: 2026-02-11
+
+-- draft     → respondent is still answering
+-- completed → finalize_submission() validated the answers
+-- processed → process-submission stored the results snapshot
+-- emailed   → the roadmap email was sent to the team
+CREATE TYPE submission_status AS ENUM ('draft', 'completed', 'processed', 'emailed');
+
+ALTER TABLE submissions
+  ADD COLUMN status submission_status NOT NULL DEFAULT 'draft',
+  ADD COLUMN completed_at TIMESTAMPTZ;
+
+-- Submissions scored before this migration already have a snapshot
+UPDATE submissions SET status = 'processed', completed_at = created_at
+WHERE id IN (SELECT submission_id FROM submission_results);
+
+-- Validates that every visible question of the submission's questionnaire has
+-- a non-empty answer and moves the submission from draft to completed.
+-- Calling it again on a finalized submission is a no-op returning its status.
+CREATE OR REPLACE FUNCTION finalize_submission(p_submission_id uuid)
+RETURNS submission_status
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_submission submissions%ROWTYPE;
+  v_missing INT;
+BEGIN
+  SELECT * INTO v_submission FROM submissions WHERE id = p_submission_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Submission not found';
+  END IF;
+
+  IF v_submission.status <> 'draft' THEN
+    RETURN v_submission.status;
+  END IF;
+
+  -- Same visibility rule as visibleQuestions in Questionnaire.tsx
+  SELECT count(*) INTO v_missing
+  FROM questions q
+  JOIN sections s ON s.id = q.section_id
+  WHERE s.questionnaire_id = v_submission.questionnaire_id
+    AND NOT EXISTS (
+      SELECT 1 FROM responses r
+      WHERE r.submission_id = p_submission_id
+        AND r.question_id = q.id
+        AND r.answer NOT IN ('""'::jsonb, '[]'::jsonb)
+    )
+    AND (
+      q.condition_question_id IS NULL
+      OR q.condition_answer IS NULL
+      OR EXISTS (
+        SELECT 1 FROM responses pr
+        WHERE pr.submission_id = p_submission_id
+          AND pr.question_id = q.condition_question_id
+          AND (pr.answer = to_jsonb(q.condition_answer) OR pr.answer @> jsonb_build_array(q.condition_answer))
+      )
+    );
+
+  IF v_missing > 0 THEN
+    RAISE EXCEPTION 'Please answer all questions before submitting (% unanswered).', v_missing;
+  END IF;
+
+  UPDATE submissions SET status = 'completed', completed_at = now()
+  WHERE id = p_submission_id;
+
+  RETURN 'completed';
+END;
+$$;
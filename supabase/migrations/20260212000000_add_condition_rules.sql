@@ -0,0 +1,152 @@
+-- Migration: Compound visibility rules for questions
+-- Date: 2026-02-12
+
+-- Rule expression deciding whether a question is shown. Format documented in
+-- supabase/functions/_shared/conditions.ts, e.g.
+--   {"all": [{"not": {"question_id": "...", "any_of": ["SAP S/4HANA"]}},
+--            {"question_id": "...", "any_of": ["Yes"]}]}
+-- condition_question_id / condition_answer are still honoured when
+-- condition_rule is NULL, so older seed scripts keep working.
+ALTER TABLE questions ADD COLUMN condition_rule JSONB;
+
+-- Move existing single-answer conditions into rules
+UPDATE questions
+SET condition_rule = jsonb_build_object(
+      'question_id', condition_question_id,
+      'any_of', jsonb_build_array(condition_answer)
+    ),
+    condition_question_id = NULL,
+    condition_answer = NULL
+WHERE condition_question_id IS NOT NULL AND condition_answer IS NOT NULL;
+
+-- SQL twin of evaluateRule() in conditions.ts
+CREATE OR REPLACE FUNCTION condition_rule_matches(p_rule jsonb, p_submission_id uuid, p_depth INT DEFAULT 0)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+STABLE
+AS $$
+DECLARE
+  v_child jsonb;
+  v_question_id uuid;
+  v_answer jsonb;
+BEGIN
+  IF p_rule ? 'all' THEN
+    FOR v_child IN SELECT * FROM jsonb_array_elements(p_rule->'all') LOOP
+      IF NOT condition_rule_matches(v_child, p_submission_id, p_depth) THEN
+        RETURN false;
+      END IF;
+    END LOOP;
+    RETURN true;
+  ELSIF p_rule ? 'any' THEN
+    FOR v_child IN SELECT * FROM jsonb_array_elements(p_rule->'any') LOOP
+      IF condition_rule_matches(v_child, p_submission_id, p_depth) THEN
+        RETURN true;
+      END IF;
+    END LOOP;
+    RETURN false;
+  ELSIF p_rule ? 'not' THEN
+    RETURN NOT condition_rule_matches(p_rule->'not', p_submission_id, p_depth);
+  ELSIF p_rule ? 'question_id' THEN
+    v_question_id := (p_rule->>'question_id')::uuid;
+
+    -- Answers to hidden questions do not count
+    IF NOT question_is_visible(v_question_id, p_submission_id, p_depth) THEN
+      RETURN false;
+    END IF;
+
+    SELECT answer INTO v_answer FROM responses
+    WHERE submission_id = p_submission_id AND question_id = v_question_id
+    ORDER BY created_at DESC
+    LIMIT 1;
+
+    IF v_answer IS NULL THEN
+      RETURN false;
+    ELSIF jsonb_typeof(v_answer) = 'array' THEN
+      RETURN EXISTS (
+        SELECT 1 FROM jsonb_array_elements_text(v_answer) a
+        WHERE (p_rule->'any_of') ? a
+      );
+    END IF;
+    RETURN (p_rule->'any_of') ? (v_answer #>> '{}');
+  END IF;
+
+  RETURN false;
+END;
+$$;
+
+-- SQL twin of createVisibility() in conditions.ts. The depth guard stops
+-- runaway recursion should a cycle ever slip into the data.
+CREATE OR REPLACE FUNCTION question_is_visible(p_question_id uuid, p_submission_id uuid, p_depth INT DEFAULT 0)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+STABLE
+AS $$
+DECLARE
+  v_question questions%ROWTYPE;
+  v_rule jsonb;
+BEGIN
+  IF p_depth > 32 THEN
+    RETURN false;
+  END IF;
+
+  SELECT * INTO v_question FROM questions WHERE id = p_question_id;
+  IF NOT FOUND THEN
+    RETURN true;
+  END IF;
+
+  v_rule := v_question.condition_rule;
+  IF v_rule IS NULL AND v_question.condition_question_id IS NOT NULL AND v_question.condition_answer IS NOT NULL THEN
+    v_rule := jsonb_build_object(
+      'question_id', v_question.condition_question_id,
+      'any_of', jsonb_build_array(v_question.condition_answer)
+    );
+  END IF;
+
+  IF v_rule IS NULL THEN
+    RETURN true;
+  END IF;
+  RETURN condition_rule_matches(v_rule, p_submission_id, p_depth + 1);
+END;
+$$;
+
+-- Same as before, but visibility now comes from the rule evaluator
+CREATE OR REPLACE FUNCTION finalize_submission(p_submission_id uuid)
+RETURNS submission_status
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_submission submissions%ROWTYPE;
+  v_missing INT;
+BEGIN
+  SELECT * INTO v_submission FROM submissions WHERE id = p_submission_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Submission not found';
+  END IF;
+
+  IF v_submission.status <> 'draft' THEN
+    RETURN v_submission.status;
+  END IF;
+
+  SELECT count(*) INTO v_missing
+  FROM questions q
+  JOIN sections s ON s.id = q.section_id
+  WHERE s.questionnaire_id = v_submission.questionnaire_id
+    AND NOT EXISTS (
+      SELECT 1 FROM responses r
+      WHERE r.submission_id = p_submission_id
+        AND r.question_id = q.id
+        AND r.answer NOT IN ('""'::jsonb, '[]'::jsonb)
+    )
+    AND question_is_visible(q.id, p_submission_id);
+
+  IF v_missing > 0 THEN
+    RAISE EXCEPTION 'Please answer all questions before submitting (% unanswered).', v_missing;
+  END IF;
+
+  UPDATE submissions SET status = 'completed', completed_at = now()
+  WHERE id = p_submission_id;
+
+  RETURN 'completed';
+END;
+$$;
@@ -0,0 +1,210 @@
+-- Migration: Draft → review → published lifecycle for questionnaire versions
+-- Date: 2026-02-13
+
+-- draft     → being edited; the only state in which content can change
+-- review    → frozen for sign-off, can be sent back to draft or published
+-- published → the live version new respondents get (is_active = true)
+-- archived  → a previously published version; its submissions stay pinned to it
+CREATE TYPE questionnaire_status AS ENUM ('draft', 'review', 'published', 'archived');
+
+ALTER TABLE questionnaires
+  ADD COLUMN status questionnaire_status NOT NULL DEFAULT 'draft',
+  ADD COLUMN published_at TIMESTAMPTZ;
+
+-- The active version is live. Inactive versions that respondents already
+-- answered are frozen; the rest stay editable.
+UPDATE questionnaires q
+SET status = CASE
+    WHEN q.is_active THEN 'published'::questionnaire_status
+    WHEN EXISTS (SELECT 1 FROM submissions s WHERE s.questionnaire_id = q.id) THEN 'archived'::questionnaire_status
+    ELSE 'draft'::questionnaire_status
+  END,
+  published_at = CASE WHEN q.is_active THEN q.created_at END;
+
+-- Questionnaire a sections / questions / decision_matrix row belongs to
+CREATE OR REPLACE FUNCTION content_questionnaire_id(p_table TEXT, p_row jsonb)
+RETURNS uuid
+LANGUAGE plpgsql
+STABLE
+AS $$
+DECLARE
+  v_id uuid;
+BEGIN
+  IF p_table = 'sections' THEN
+    v_id := (p_row->>'questionnaire_id')::uuid;
+  ELSIF p_table = 'questions' THEN
+    SELECT questionnaire_id INTO v_id FROM sections WHERE id = (p_row->>'section_id')::uuid;
+  ELSIF p_table = 'decision_matrix' THEN
+    SELECT s.questionnaire_id INTO v_id
+    FROM questions q
+    JOIN sections s ON s.id = q.section_id
+    WHERE q.id = (p_row->>'question_id')::uuid;
+  END IF;
+  RETURN v_id;
+END;
+$$;
+
+-- Rejects content changes to versions that are not drafts, so respondents
+-- mid-questionnaire never see a half-edited version.
+CREATE OR REPLACE FUNCTION guard_questionnaire_content()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_row jsonb;
+  v_status questionnaire_status;
+  v_version TEXT;
+BEGIN
+  -- Deletes cascading from a removed questionnaire or use case are allowed
+  IF pg_trigger_depth() > 1 THEN
+    RETURN COALESCE(NEW, OLD);
+  END IF;
+
+  FOR v_row IN
+    SELECT r FROM unnest(ARRAY[
+      CASE WHEN TG_OP <> 'INSERT' THEN to_jsonb(OLD) END,
+      CASE WHEN TG_OP <> 'DELETE' THEN to_jsonb(NEW) END
+    ]) AS r
+    WHERE r IS NOT NULL
+  LOOP
+    SELECT status, version INTO v_status, v_version
+    FROM questionnaires
+    WHERE id = content_questionnaire_id(TG_TABLE_NAME, v_row);
+
+    IF v_status IS NOT NULL AND v_status <> 'draft' THEN
+      RAISE EXCEPTION 'Version % is % and cannot be edited. Create a new draft version instead.', v_version, v_status;
+    END IF;
+  END LOOP;
+
+  RETURN COALESCE(NEW, OLD);
+END;
+$$;
+
+CREATE TRIGGER sections_guard_version
+  BEFORE INSERT OR UPDATE OR DELETE ON sections
+  FOR EACH ROW EXECUTE FUNCTION guard_questionnaire_content();
+
+CREATE TRIGGER questions_guard_version
+  BEFORE INSERT OR UPDATE OR DELETE ON questions
+  FOR EACH ROW EXECUTE FUNCTION guard_questionnaire_content();
+
+CREATE TRIGGER decision_matrix_guard_version
+  BEFORE INSERT OR UPDATE OR DELETE ON decision_matrix
+  FOR EACH ROW EXECUTE FUNCTION guard_questionnaire_content();
+
+-- Rewrites every question_id in a condition rule through p_map
+-- ({"<old uuid>": "<new uuid>"}); ids missing from the map are kept.
+CREATE OR REPLACE FUNCTION remap_condition_rule(p_rule jsonb, p_map jsonb)
+RETURNS jsonb
+LANGUAGE plpgsql
+IMMUTABLE
+AS $$
+DECLARE
+  v_key TEXT;
+  v_children jsonb;
+BEGIN
+  IF p_rule IS NULL THEN
+    RETURN NULL;
+  ELSIF p_rule ? 'all' OR p_rule ? 'any' THEN
+    v_key := CASE WHEN p_rule ? 'all' THEN 'all' ELSE 'any' END;
+    SELECT COALESCE(jsonb_agg(remap_condition_rule(c.child, p_map) ORDER BY c.idx), '[]'::jsonb)
+    INTO v_children
+    FROM jsonb_array_elements(p_rule->v_key) WITH ORDINALITY AS c(child, idx);
+    RETURN jsonb_build_object(v_key, v_children);
+  ELSIF p_rule ? 'not' THEN
+    RETURN jsonb_build_object('not', remap_condition_rule(p_rule->'not', p_map));
+  ELSIF p_rule ? 'question_id' THEN
+    RETURN jsonb_set(p_rule, '{question_id}', COALESCE(p_map->(p_rule->>'question_id'), p_rule->'question_id'));
+  END IF;
+  RETURN p_rule;
+END;
+$$;
+
+-- Copies a questionnaire with its sections, questions, conditions, matrix
+-- mappings and weights into a new draft version. Runs in one transaction,
+-- so a failure leaves nothing half-copied.
+CREATE OR REPLACE FUNCTION clone_questionnaire(p_source_id uuid, p_version TEXT)
+RETURNS uuid
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_new_id uuid;
+  v_section sections%ROWTYPE;
+  v_question questions%ROWTYPE;
+  v_new_section_id uuid;
+  v_new_question_id uuid;
+  v_map jsonb := '{}'::jsonb;
+BEGIN
+  INSERT INTO questionnaires (title, version, description, status, is_active)
+  SELECT title, p_version, description, 'draft', false
+  FROM questionnaires WHERE id = p_source_id
+  RETURNING id INTO v_new_id;
+
+  IF v_new_id IS NULL THEN
+    RAISE EXCEPTION 'Questionnaire not found';
+  END IF;
+
+  FOR v_section IN SELECT * FROM sections WHERE questionnaire_id = p_source_id LOOP
+    INSERT INTO sections (questionnaire_id, title, description, "order")
+    VALUES (v_new_id, v_section.title, v_section.description, v_section."order")
+    RETURNING id INTO v_new_section_id;
+
+    FOR v_question IN SELECT * FROM questions WHERE section_id = v_section.id LOOP
+      INSERT INTO questions (section_id, question_text, question_type, options, "order",
+                             condition_rule, condition_question_id, condition_answer)
+      VALUES (v_new_section_id, v_question.question_text, v_question.question_type, v_question.options,
+              v_question."order", v_question.condition_rule, NULL, v_question.condition_answer)
+      RETURNING id INTO v_new_question_id;
+
+      v_map := v_map || jsonb_build_object(v_question.id::text, v_new_question_id);
+    END LOOP;
+  END LOOP;
+
+  -- Conditions may point at questions in later sections, so they are
+  -- remapped once every question has its copy
+  UPDATE questions q
+  SET condition_rule = remap_condition_rule(src.condition_rule, v_map),
+      condition_question_id = (v_map->>src.condition_question_id::text)::uuid
+  FROM questions src
+  WHERE q.id = (v_map->>src.id::text)::uuid
+    AND (src.condition_rule IS NOT NULL OR src.condition_question_id IS NOT NULL);
+
+  INSERT INTO decision_matrix (question_id, use_case_id, triggering_answer, weight)
+  SELECT (v_map->>dm.question_id::text)::uuid, dm.use_case_id, dm.triggering_answer, dm.weight
+  FROM decision_matrix dm
+  WHERE v_map ? dm.question_id::text;
+
+  RETURN v_new_id;
+END;
+$$;
+
+-- Makes a reviewed version the live one. The previously published version is
+-- archived in the same transaction, so there is never a moment with zero or
+-- two active questionnaires.
+CREATE OR REPLACE FUNCTION publish_questionnaire(p_questionnaire_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_status questionnaire_status;
+BEGIN
+  -- Serialises concurrent publishes
+  LOCK TABLE questionnaires IN SHARE ROW EXCLUSIVE MODE;
+
+  SELECT status INTO v_status FROM questionnaires WHERE id = p_questionnaire_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Questionnaire not found';
+  END IF;
+
+  IF v_status <> 'review' THEN
+    RAISE EXCEPTION 'Only versions in review can be published (this one is %).', v_status;
+  END IF;
+
+  UPDATE questionnaires SET status = 'archived', is_active = false
+  WHERE id <> p_questionnaire_id AND (status = 'published' OR is_active);
+
+  UPDATE questionnaires SET status = 'published', is_active = true, published_at = now()
+  WHERE id = p_questionnaire_id;
+END;
+$$;
@@ -0,0 +1,61 @@
+-- Migration: Duplicate a questionnaire under a new title and version
+-- Date: 2026-02-14
+
+-- Same copy as before, with an optional title for the copy. The old
+-- two-argument signature is dropped so the RPC resolves unambiguously.
+DROP FUNCTION IF EXISTS clone_questionnaire(uuid, TEXT);
+
+CREATE OR REPLACE FUNCTION clone_questionnaire(p_source_id uuid, p_version TEXT, p_title TEXT DEFAULT NULL)
+RETURNS uuid
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_new_id uuid;
+  v_section sections%ROWTYPE;
+  v_question questions%ROWTYPE;
+  v_new_section_id uuid;
+  v_new_question_id uuid;
+  v_map jsonb := '{}'::jsonb;
+BEGIN
+  INSERT INTO questionnaires (title, version, description, status, is_active)
+  SELECT COALESCE(NULLIF(trim(p_title), ''), title), p_version, description, 'draft', false
+  FROM questionnaires WHERE id = p_source_id
+  RETURNING id INTO v_new_id;
+
+  IF v_new_id IS NULL THEN
+    RAISE EXCEPTION 'Questionnaire not found';
+  END IF;
+
+  FOR v_section IN SELECT * FROM sections WHERE questionnaire_id = p_source_id LOOP
+    INSERT INTO sections (questionnaire_id, title, description, "order")
+    VALUES (v_new_id, v_section.title, v_section.description, v_section."order")
+    RETURNING id INTO v_new_section_id;
+
+    FOR v_question IN SELECT * FROM questions WHERE section_id = v_section.id LOOP
+      INSERT INTO questions (section_id, question_text, question_type, options, "order",
+                             condition_rule, condition_question_id, condition_answer)
+      VALUES (v_new_section_id, v_question.question_text, v_question.question_type, v_question.options,
+              v_question."order", v_question.condition_rule, NULL, v_question.condition_answer)
+      RETURNING id INTO v_new_question_id;
+
+      v_map := v_map || jsonb_build_object(v_question.id::text, v_new_question_id);
+    END LOOP;
+  END LOOP;
+
+  -- Conditions may point at questions in later sections, so they are
+  -- remapped once every question has its copy
+  UPDATE questions q
+  SET condition_rule = remap_condition_rule(src.condition_rule, v_map),
+      condition_question_id = (v_map->>src.condition_question_id::text)::uuid
+  FROM questions src
+  WHERE q.id = (v_map->>src.id::text)::uuid
+    AND (src.condition_rule IS NOT NULL OR src.condition_question_id IS NOT NULL);
+
+  INSERT INTO decision_matrix (question_id, use_case_id, triggering_answer, weight)
+  SELECT (v_map->>dm.question_id::text)::uuid, dm.use_case_id, dm.triggering_answer, dm.weight
+  FROM decision_matrix dm
+  WHERE v_map ? dm.question_id::text;
+
+  RETURN v_new_id;
+END;
+$$;
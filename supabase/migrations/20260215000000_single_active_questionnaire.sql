@@ -0,0 +1,125 @@
+-- Migration: At most one active questionnaire, and a pre-publish validation report
+-- Date: 2026-02-15
+
+-- Keep the most recently published of any competing active versions
+UPDATE questionnaires SET is_active = false
+WHERE is_active
+  AND id <> (
+    SELECT id FROM questionnaires
+    WHERE is_active
+    ORDER BY published_at DESC NULLS LAST, created_at DESC
+    LIMIT 1
+  );
+
+UPDATE questionnaires SET status = 'archived'
+WHERE status = 'published' AND NOT is_active;
+
+-- CustomerDetails.tsx picks the active version with .single(), which fails
+-- as soon as two rows match
+CREATE UNIQUE INDEX questionnaires_single_active ON questionnaires (is_active) WHERE is_active;
+
+-- Makes a version the live one: a reviewed draft going live, or an archived
+-- version being rolled back to. The previously live version is archived in
+-- the same transaction.
+CREATE OR REPLACE FUNCTION publish_questionnaire(p_questionnaire_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_status questionnaire_status;
+BEGIN
+  -- Serialises concurrent publishes
+  LOCK TABLE questionnaires IN SHARE ROW EXCLUSIVE MODE;
+
+  SELECT status INTO v_status FROM questionnaires WHERE id = p_questionnaire_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Questionnaire not found';
+  END IF;
+
+  IF v_status NOT IN ('review', 'archived') THEN
+    RAISE EXCEPTION 'Only versions in review or archived versions can be published (this one is %).', v_status;
+  END IF;
+
+  UPDATE questionnaires SET status = 'archived', is_active = false
+  WHERE id <> p_questionnaire_id AND (status = 'published' OR is_active);
+
+  UPDATE questionnaires SET status = 'published', is_active = true, published_at = now()
+  WHERE id = p_questionnaire_id;
+END;
+$$;
+
+-- Every question/answer leaf of a condition rule
+CREATE OR REPLACE FUNCTION condition_rule_leaves(p_rule jsonb)
+RETURNS SETOF jsonb
+LANGUAGE plpgsql
+IMMUTABLE
+AS $$
+DECLARE
+  v_child jsonb;
+BEGIN
+  IF p_rule ? 'question_id' THEN
+    RETURN NEXT p_rule;
+  ELSIF p_rule ? 'all' OR p_rule ? 'any' THEN
+    FOR v_child IN SELECT * FROM jsonb_array_elements(COALESCE(p_rule->'all', p_rule->'any')) LOOP
+      RETURN QUERY SELECT * FROM condition_rule_leaves(v_child);
+    END LOOP;
+  ELSIF p_rule ? 'not' THEN
+    RETURN QUERY SELECT * FROM condition_rule_leaves(p_rule->'not');
+  END IF;
+END;
+$$;
+
+-- Problems worth fixing before a version goes live. Shown in the publish
+-- dialog; none of them block publishing.
+CREATE OR REPLACE FUNCTION questionnaire_validation_report(p_questionnaire_id uuid)
+RETURNS TABLE (issue TEXT, section_title TEXT, question_text TEXT, detail TEXT)
+LANGUAGE sql
+STABLE
+AS $$
+  WITH qs AS (
+    SELECT q.*, s.title AS s_title, s."order" AS s_order,
+           COALESCE(q.options, CASE WHEN q.question_type = 'YesNo' THEN '["Yes", "No"]'::jsonb END) AS answer_options,
+           COALESCE(q.condition_rule, CASE
+             WHEN q.condition_question_id IS NOT NULL AND q.condition_answer IS NOT NULL
+             THEN jsonb_build_object('question_id', q.condition_question_id, 'any_of', jsonb_build_array(q.condition_answer))
+           END) AS rule
+    FROM questions q
+    JOIN sections s ON s.id = q.section_id
+    WHERE s.questionnaire_id = p_questionnaire_id
+  ),
+  leaves AS (
+    SELECT qs.*, leaf
+    FROM qs, condition_rule_leaves(qs.rule) AS leaf
+    WHERE qs.rule IS NOT NULL
+  )
+  SELECT 'empty_section', s.title, NULL, 'Section has no questions'
+  FROM sections s
+  WHERE s.questionnaire_id = p_questionnaire_id
+    AND NOT EXISTS (SELECT 1 FROM questions q WHERE q.section_id = s.id)
+
+  UNION ALL
+  SELECT 'unmapped_question', qs.s_title, qs.question_text, 'No decision matrix mappings'
+  FROM qs
+  WHERE NOT EXISTS (SELECT 1 FROM decision_matrix dm WHERE dm.question_id = qs.id)
+
+  UNION ALL
+  SELECT 'broken_condition', l.s_title, l.question_text,
+    CASE
+      WHEN parent.id IS NULL THEN 'Condition refers to a question that is not in this version'
+      WHEN (parent.s_order, parent."order") >= (l.s_order, l."order") THEN format('Condition refers to a later question: "%s"', parent.question_text)
+      ELSE format('Condition expects %s, which is not an option of "%s"', bad.answer, parent.question_text)
+    END
+  FROM leaves l
+  LEFT JOIN qs parent ON parent.id::text = l.leaf->>'question_id'
+  LEFT JOIN LATERAL (
+    SELECT string_agg(format('"%s"', a), ', ') AS answer
+    FROM jsonb_array_elements_text(l.leaf->'any_of') AS a
+    WHERE parent.answer_options IS NOT NULL AND NOT parent.answer_options ? a
+  ) bad ON true
+  WHERE parent.id IS NULL
+     OR (parent.s_order, parent."order") >= (l.s_order, l."order")
+     OR bad.answer IS NOT NULL
+
+  ORDER BY 1, 2, 3;
+$$;
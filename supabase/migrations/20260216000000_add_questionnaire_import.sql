@@ -0,0 +1,54 @@
+-- Migration: Create a questionnaire version from an imported document
+-- Date: 2026-02-16
+
+-- p_plan is a document already validated and resolved by the admin UI
+-- (see supabase/functions/_shared/questionnaireDocument.ts): use cases carry
+-- their ids, while condition rules still name questions by document key.
+-- Everything is inserted in one transaction as a new draft.
+CREATE OR REPLACE FUNCTION import_questionnaire(p_plan jsonb)
+RETURNS uuid
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_new_id uuid;
+  v_section jsonb;
+  v_question jsonb;
+  v_new_section_id uuid;
+  v_new_question_id uuid;
+  v_map jsonb := '{}'::jsonb;
+BEGIN
+  INSERT INTO questionnaires (title, version, description, status, is_active)
+  VALUES (p_plan->>'title', p_plan->>'version', p_plan->>'description', 'draft', false)
+  RETURNING id INTO v_new_id;
+
+  FOR v_section IN SELECT * FROM jsonb_array_elements(p_plan->'sections') LOOP
+    INSERT INTO sections (questionnaire_id, title, description, "order")
+    VALUES (v_new_id, v_section->>'title', v_section->>'description', (v_section->>'order')::int)
+    RETURNING id INTO v_new_section_id;
+
+    FOR v_question IN SELECT * FROM jsonb_array_elements(v_section->'questions') LOOP
+      INSERT INTO questions (section_id, question_text, question_type, options, "order", condition_rule)
+      VALUES (v_new_section_id, v_question->>'question_text', (v_question->>'question_type')::question_type,
+              NULLIF(v_question->'options', 'null'::jsonb), (v_question->>'order')::int,
+              NULLIF(v_question->'condition_rule', 'null'::jsonb))
+      RETURNING id INTO v_new_question_id;
+
+      v_map := v_map || jsonb_build_object(v_question->>'key', v_new_question_id);
+
+      INSERT INTO decision_matrix (question_id, use_case_id, triggering_answer, weight)
+      SELECT v_new_question_id, (m->>'use_case_id')::uuid, m->>'triggering_answer', (m->>'weight')::int
+      FROM jsonb_array_elements(v_question->'mappings') AS m;
+    END LOOP;
+  END LOOP;
+
+  -- Swap document keys for the new question ids
+  UPDATE questions q
+  SET condition_rule = remap_condition_rule(q.condition_rule, v_map)
+  FROM sections s
+  WHERE s.id = q.section_id
+    AND s.questionnaire_id = v_new_id
+    AND q.condition_rule IS NOT NULL;
+
+  RETURN v_new_id;
+END;
+$$;
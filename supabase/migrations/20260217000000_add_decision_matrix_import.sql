@@ -0,0 +1,41 @@
+-- Migration: Apply a spreadsheet of decision matrix mappings in one transaction
+-- Date: 2026-02-17
+
+-- p_rows: [{"question_id", "use_case_id", "triggering_answer", "weight"}, ...]
+-- as resolved by the admin UI (supabase/functions/_shared/matrixImport.ts).
+-- Existing mappings for the same question / use case / answer are reweighted,
+-- the rest inserted. Any invalid row aborts the whole import.
+CREATE OR REPLACE FUNCTION import_decision_matrix(p_questionnaire_id uuid, p_rows jsonb)
+RETURNS INT
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_bad RECORD;
+  v_count INT;
+BEGIN
+  SELECT r->>'question_id' AS question_id, r->>'triggering_answer' AS answer, q.id IS NULL AS foreign_question
+  INTO v_bad
+  FROM jsonb_array_elements(p_rows) AS r
+  LEFT JOIN questions q ON q.id = (r->>'question_id')::uuid
+    AND q.section_id IN (SELECT id FROM sections WHERE questionnaire_id = p_questionnaire_id)
+  WHERE q.id IS NULL
+     OR NOT COALESCE(q.options, CASE WHEN q.question_type = 'YesNo' THEN '["Yes", "No"]'::jsonb END, '[]'::jsonb)
+            ? (r->>'triggering_answer')
+  LIMIT 1;
+
+  IF FOUND THEN
+    IF v_bad.foreign_question THEN
+      RAISE EXCEPTION 'Question % is not part of this questionnaire version', v_bad.question_id;
+    END IF;
+    RAISE EXCEPTION 'Answer "%" is not an option of question %', v_bad.answer, v_bad.question_id;
+  END IF;
+
+  INSERT INTO decision_matrix (question_id, use_case_id, triggering_answer, weight)
+  SELECT (r->>'question_id')::uuid, (r->>'use_case_id')::uuid, r->>'triggering_answer', (r->>'weight')::int
+  FROM jsonb_array_elements(p_rows) AS r
+  ON CONFLICT (question_id, use_case_id, triggering_answer) DO UPDATE SET weight = EXCLUDED.weight;
+
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+  RETURN v_count;
+END;
+$$;
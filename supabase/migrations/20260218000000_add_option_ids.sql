@@ -0,0 +1,287 @@
+-- Migration: Stable option ids, with renames cascading to the matrix and conditions
+-- Date: 2026-02-18
+
+-- questions.options changes from ["Finance", ...] to
+--   [{"id": "3f9c0a1b", "label": "Finance", "aliases": ["Finanse"]}, ...]
+-- (see supabase/functions/_shared/options.ts). The id stays when the label is
+-- edited and is copied along when a version is duplicated; the former label
+-- is kept in aliases so responses recorded under it remain interpretable.
+
+-- Labels of a question's options, in order; YesNo questions default to Yes/No.
+-- Accepts both the plain-string and the object form.
+CREATE OR REPLACE FUNCTION question_option_labels(p_options jsonb, p_type question_type)
+RETURNS jsonb
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT CASE
+    WHEN p_options IS NULL OR jsonb_typeof(p_options) <> 'array' OR jsonb_array_length(p_options) = 0 THEN
+      CASE WHEN p_type = 'YesNo' THEN '["Yes", "No"]'::jsonb END
+    ELSE (
+      SELECT jsonb_agg(CASE WHEN jsonb_typeof(o) = 'string' THEN o ELSE o->'label' END ORDER BY i)
+      FROM jsonb_array_elements(p_options) WITH ORDINALITY AS e(o, i)
+    )
+  END;
+$$;
+
+-- Brings options into the object form. Plain strings take over the id of the
+-- previous option with that label or alias, so clients still writing label
+-- arrays keep ids stable; otherwise the id is derived from the label, which
+-- gives the same option the same id in every version it appears in.
+-- An object whose label differs from its previous label gains that label as
+-- an alias.
+CREATE OR REPLACE FUNCTION normalize_question_options(p_options jsonb, p_previous jsonb)
+RETURNS jsonb
+LANGUAGE plpgsql
+IMMUTABLE
+AS $$
+DECLARE
+  v_option jsonb;
+  v_label TEXT;
+  v_id TEXT;
+  v_prev jsonb;
+  v_aliases jsonb;
+  v_ids TEXT[] := '{}';
+  v_labels TEXT[] := '{}';
+  v_result jsonb := '[]'::jsonb;
+BEGIN
+  IF p_options IS NULL OR jsonb_typeof(p_options) <> 'array' THEN
+    RETURN p_options;
+  END IF;
+
+  FOR v_option IN SELECT * FROM jsonb_array_elements(p_options) LOOP
+    IF jsonb_typeof(v_option) = 'string' THEN
+      v_label := v_option #>> '{}';
+      SELECT p INTO v_prev
+      FROM jsonb_array_elements(COALESCE(p_previous, '[]'::jsonb)) AS p
+      WHERE jsonb_typeof(p) = 'object'
+        AND (p->>'label' = v_label OR COALESCE(p->'aliases', '[]'::jsonb) ? v_label)
+      LIMIT 1;
+      v_id := COALESCE(v_prev->>'id', substr(md5(v_label), 1, 8));
+    ELSE
+      v_label := v_option->>'label';
+      v_id := COALESCE(v_option->>'id', substr(md5(v_label), 1, 8));
+      SELECT p INTO v_prev
+      FROM jsonb_array_elements(COALESCE(p_previous, '[]'::jsonb)) AS p
+      WHERE jsonb_typeof(p) = 'object' AND p->>'id' = v_id
+      LIMIT 1;
+    END IF;
+
+    IF v_label IS NULL OR btrim(v_label) = '' THEN
+      RAISE EXCEPTION 'Options need a label';
+    END IF;
+    IF v_label = ANY (v_labels) THEN
+      RAISE EXCEPTION 'Option "%" appears more than once', v_label;
+    END IF;
+
+    -- A new option reusing a label that was renamed away gets a fresh id
+    WHILE v_id = ANY (v_ids) LOOP
+      v_id := substr(md5(v_id || v_label), 1, 8);
+    END LOOP;
+
+    v_aliases := COALESCE(v_option->'aliases', v_prev->'aliases', '[]'::jsonb);
+    IF v_prev IS NOT NULL AND v_prev->>'label' <> v_label AND NOT v_aliases ? (v_prev->>'label') THEN
+      v_aliases := v_aliases || jsonb_build_array(v_prev->>'label');
+    END IF;
+    v_aliases := v_aliases - v_label;
+
+    v_result := v_result || jsonb_build_array(
+      jsonb_build_object('id', v_id, 'label', v_label)
+        || CASE WHEN jsonb_array_length(v_aliases) > 0 THEN jsonb_build_object('aliases', v_aliases) ELSE '{}'::jsonb END
+    );
+    v_ids := v_ids || v_id;
+    v_labels := v_labels || v_label;
+    v_prev := NULL;
+  END LOOP;
+
+  RETURN v_result;
+END;
+$$;
+
+-- Rewrites the answers a condition rule expects from one question
+CREATE OR REPLACE FUNCTION rename_condition_answer(p_rule jsonb, p_question_id uuid, p_old TEXT, p_new TEXT)
+RETURNS jsonb
+LANGUAGE plpgsql
+IMMUTABLE
+AS $$
+DECLARE
+  v_key TEXT;
+  v_children jsonb;
+BEGIN
+  IF p_rule IS NULL THEN
+    RETURN NULL;
+  ELSIF p_rule ? 'all' OR p_rule ? 'any' THEN
+    v_key := CASE WHEN p_rule ? 'all' THEN 'all' ELSE 'any' END;
+    SELECT COALESCE(jsonb_agg(rename_condition_answer(c.child, p_question_id, p_old, p_new) ORDER BY c.idx), '[]'::jsonb)
+    INTO v_children
+    FROM jsonb_array_elements(p_rule->v_key) WITH ORDINALITY AS c(child, idx);
+    RETURN jsonb_build_object(v_key, v_children);
+  ELSIF p_rule ? 'not' THEN
+    RETURN jsonb_build_object('not', rename_condition_answer(p_rule->'not', p_question_id, p_old, p_new));
+  ELSIF p_rule->>'question_id' = p_question_id::text AND p_rule->'any_of' ? p_old THEN
+    RETURN jsonb_set(p_rule, '{any_of}', (
+      SELECT jsonb_agg(DISTINCT CASE WHEN a = p_old THEN p_new ELSE a END)
+      FROM jsonb_array_elements_text(p_rule->'any_of') AS a
+    ));
+  END IF;
+  RETURN p_rule;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION normalize_question_options_trigger()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  NEW.options := normalize_question_options(NEW.options, CASE WHEN TG_OP = 'UPDATE' THEN OLD.options END);
+  RETURN NEW;
+END;
+$$;
+
+-- Carries label edits over to the mappings and to conditions on this question.
+-- Responses are left as they were recorded; the alias resolves them.
+CREATE OR REPLACE FUNCTION cascade_option_renames()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_rename RECORD;
+BEGIN
+  FOR v_rename IN
+    SELECT o->>'label' AS old_label, n->>'label' AS new_label
+    FROM jsonb_array_elements(COALESCE(OLD.options, '[]'::jsonb)) AS o
+    JOIN jsonb_array_elements(COALESCE(NEW.options, '[]'::jsonb)) AS n ON n->>'id' = o->>'id'
+    WHERE jsonb_typeof(o) = 'object' AND o->>'label' <> n->>'label'
+  LOOP
+    -- Mappings that already exist under the new label win over the renamed ones
+    DELETE FROM decision_matrix d
+    WHERE d.question_id = NEW.id AND d.triggering_answer = v_rename.old_label
+      AND EXISTS (
+        SELECT 1 FROM decision_matrix x
+        WHERE x.question_id = NEW.id AND x.use_case_id = d.use_case_id AND x.triggering_answer = v_rename.new_label
+      );
+
+    UPDATE decision_matrix SET triggering_answer = v_rename.new_label
+    WHERE question_id = NEW.id AND triggering_answer = v_rename.old_label;
+
+    UPDATE questions q
+    SET condition_rule = rename_condition_answer(q.condition_rule, NEW.id, v_rename.old_label, v_rename.new_label)
+    WHERE q.condition_rule IS NOT NULL
+      AND EXISTS (
+        SELECT 1 FROM condition_rule_leaves(q.condition_rule) AS leaf
+        WHERE leaf->>'question_id' = NEW.id::text AND leaf->'any_of' ? v_rename.old_label
+      );
+
+    UPDATE questions SET condition_answer = v_rename.new_label
+    WHERE condition_question_id = NEW.id AND condition_answer = v_rename.old_label;
+  END LOOP;
+
+  RETURN NEW;
+END;
+$$;
+
+-- Existing content is converted once, including frozen versions, so every
+-- version reads the same shape
+ALTER TABLE questions DISABLE TRIGGER questions_guard_version;
+
+UPDATE questions SET options = normalize_question_options(options, NULL)
+WHERE options IS NOT NULL;
+
+ALTER TABLE questions ENABLE TRIGGER questions_guard_version;
+
+-- Fires after questions_guard_version (triggers run in name order)
+CREATE TRIGGER questions_normalize_options
+  BEFORE INSERT OR UPDATE OF options ON questions
+  FOR EACH ROW EXECUTE FUNCTION normalize_question_options_trigger();
+
+CREATE TRIGGER questions_cascade_option_renames
+  AFTER UPDATE OF options ON questions
+  FOR EACH ROW EXECUTE FUNCTION cascade_option_renames();
+
+-- Readers of questions.options that compared against plain strings
+
+CREATE OR REPLACE FUNCTION questionnaire_validation_report(p_questionnaire_id uuid)
+RETURNS TABLE (issue TEXT, section_title TEXT, question_text TEXT, detail TEXT)
+LANGUAGE sql
+STABLE
+AS $$
+  WITH qs AS (
+    SELECT q.*, s.title AS s_title, s."order" AS s_order,
+           question_option_labels(q.options, q.question_type) AS answer_options,
+           COALESCE(q.condition_rule, CASE
+             WHEN q.condition_question_id IS NOT NULL AND q.condition_answer IS NOT NULL
+             THEN jsonb_build_object('question_id', q.condition_question_id, 'any_of', jsonb_build_array(q.condition_answer))
+           END) AS rule
+    FROM questions q
+    JOIN sections s ON s.id = q.section_id
+    WHERE s.questionnaire_id = p_questionnaire_id
+  ),
+  leaves AS (
+    SELECT qs.*, leaf
+    FROM qs, condition_rule_leaves(qs.rule) AS leaf
+    WHERE qs.rule IS NOT NULL
+  )
+  SELECT 'empty_section', s.title, NULL, 'Section has no questions'
+  FROM sections s
+  WHERE s.questionnaire_id = p_questionnaire_id
+    AND NOT EXISTS (SELECT 1 FROM questions q WHERE q.section_id = s.id)
+
+  UNION ALL
+  SELECT 'unmapped_question', qs.s_title, qs.question_text, 'No decision matrix mappings'
+  FROM qs
+  WHERE NOT EXISTS (SELECT 1 FROM decision_matrix dm WHERE dm.question_id = qs.id)
+
+  UNION ALL
+  SELECT 'broken_condition', l.s_title, l.question_text,
+    CASE
+      WHEN parent.id IS NULL THEN 'Condition refers to a question that is not in this version'
+      WHEN (parent.s_order, parent."order") >= (l.s_order, l."order") THEN format('Condition refers to a later question: "%s"', parent.question_text)
+      ELSE format('Condition expects %s, which is not an option of "%s"', bad.answer, parent.question_text)
+    END
+  FROM leaves l
+  LEFT JOIN qs parent ON parent.id::text = l.leaf->>'question_id'
+  LEFT JOIN LATERAL (
+    SELECT string_agg(format('"%s"', a), ', ') AS answer
+    FROM jsonb_array_elements_text(l.leaf->'any_of') AS a
+    WHERE parent.answer_options IS NOT NULL AND NOT parent.answer_options ? a
+  ) bad ON true
+  WHERE parent.id IS NULL
+     OR (parent.s_order, parent."order") >= (l.s_order, l."order")
+     OR bad.answer IS NOT NULL
+
+  ORDER BY 1, 2, 3;
+$$;
+
+CREATE OR REPLACE FUNCTION import_decision_matrix(p_questionnaire_id uuid, p_rows jsonb)
+RETURNS INT
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_bad RECORD;
+  v_count INT;
+BEGIN
+  SELECT r->>'question_id' AS question_id, r->>'triggering_answer' AS answer, q.id IS NULL AS foreign_question
+  INTO v_bad
+  FROM jsonb_array_elements(p_rows) AS r
+  LEFT JOIN questions q ON q.id = (r->>'question_id')::uuid
+    AND q.section_id IN (SELECT id FROM sections WHERE questionnaire_id = p_questionnaire_id)
+  WHERE q.id IS NULL
+     OR NOT COALESCE(question_option_labels(q.options, q.question_type), '[]'::jsonb) ? (r->>'triggering_answer')
+  LIMIT 1;
+
+  IF FOUND THEN
+    IF v_bad.foreign_question THEN
+      RAISE EXCEPTION 'Question % is not part of this questionnaire version', v_bad.question_id;
+    END IF;
+    RAISE EXCEPTION 'Answer "%" is not an option of question %', v_bad.answer, v_bad.question_id;
+  END IF;
+
+  INSERT INTO decision_matrix (question_id, use_case_id, triggering_answer, weight)
+  SELECT (r->>'question_id')::uuid, (r->>'use_case_id')::uuid, r->>'triggering_answer', (r->>'weight')::int
+  FROM jsonb_array_elements(p_rows) AS r
+  ON CONFLICT (question_id, use_case_id, triggering_answer) DO UPDATE SET weight = EXCLUDED.weight;
+
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+  RETURN v_count;
+END;
+$$;
@@ -0,0 +1,173 @@
+-- Migration: Scoring threshold and ranking strategy per questionnaire version
+-- Date: 2026-02-19
+
+-- Read by scoringSettings() in supabase/functions/_shared/scoring.ts:
+--   min_score        minimum total weight a use case needs to be recommended
+--   min_percent      minimum score as a percentage of the use case's highest
+--                    achievable score in the version
+--   top_n_per_phase  most use cases recommended per engagement category,
+--                    null for no cap
+--   ranking          'raw' (total weight) or 'normalized' (score / max score)
+-- Existing versions get the values scoring was hard-coded to until now.
+CREATE OR REPLACE FUNCTION scoring_settings_valid(p_settings jsonb)
+RETURNS boolean
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT jsonb_typeof(p_settings) = 'object'
+    AND NOT EXISTS (
+      SELECT 1 FROM jsonb_object_keys(p_settings) AS k
+      WHERE k NOT IN ('min_score', 'min_percent', 'top_n_per_phase', 'ranking')
+    )
+    AND (NOT p_settings ? 'min_score'
+         OR (jsonb_typeof(p_settings->'min_score') = 'number'
+             AND (p_settings->>'min_score')::numeric >= 0
+             AND (p_settings->>'min_score')::numeric = trunc((p_settings->>'min_score')::numeric)))
+    AND (NOT p_settings ? 'min_percent'
+         OR (jsonb_typeof(p_settings->'min_percent') = 'number'
+             AND (p_settings->>'min_percent')::numeric BETWEEN 0 AND 100))
+    AND (NOT p_settings ? 'top_n_per_phase'
+         OR jsonb_typeof(p_settings->'top_n_per_phase') = 'null'
+         OR (jsonb_typeof(p_settings->'top_n_per_phase') = 'number'
+             AND (p_settings->>'top_n_per_phase')::numeric >= 1
+             AND (p_settings->>'top_n_per_phase')::numeric = trunc((p_settings->>'top_n_per_phase')::numeric)))
+    AND (NOT p_settings ? 'ranking' OR p_settings->>'ranking' IN ('raw', 'normalized'));
+$$;
+
+ALTER TABLE questionnaires
+  ADD COLUMN scoring_settings jsonb NOT NULL
+    DEFAULT '{"min_score": 3, "min_percent": 0, "top_n_per_phase": null, "ranking": "raw"}'::jsonb
+    CONSTRAINT questionnaires_scoring_settings_valid CHECK (scoring_settings_valid(scoring_settings));
+
+-- Scoring is part of a version's content: changing it on a published version
+-- would silently change what live respondents are recommended.
+CREATE OR REPLACE FUNCTION guard_scoring_settings()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF OLD.status <> 'draft' THEN
+    RAISE EXCEPTION 'Version % is % and its scoring settings cannot be edited. Create a new draft version instead.', OLD.version, OLD.status;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER questionnaires_guard_scoring_settings
+  BEFORE UPDATE OF scoring_settings ON questionnaires
+  FOR EACH ROW
+  WHEN (OLD.scoring_settings IS DISTINCT FROM NEW.scoring_settings)
+  EXECUTE FUNCTION guard_scoring_settings();
+
+-- Same copy as in 20260214000000_add_questionnaire_duplicate.sql, now
+-- carrying the scoring settings over to the new draft.
+CREATE OR REPLACE FUNCTION clone_questionnaire(p_source_id uuid, p_version TEXT, p_title TEXT DEFAULT NULL)
+RETURNS uuid
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_new_id uuid;
+  v_section sections%ROWTYPE;
+  v_question questions%ROWTYPE;
+  v_new_section_id uuid;
+  v_new_question_id uuid;
+  v_map jsonb := '{}'::jsonb;
+BEGIN
+  INSERT INTO questionnaires (title, version, description, status, is_active, scoring_settings)
+  SELECT COALESCE(NULLIF(trim(p_title), ''), title), p_version, description, 'draft', false, scoring_settings
+  FROM questionnaires WHERE id = p_source_id
+  RETURNING id INTO v_new_id;
+
+  IF v_new_id IS NULL THEN
+    RAISE EXCEPTION 'Questionnaire not found';
+  END IF;
+
+  FOR v_section IN SELECT * FROM sections WHERE questionnaire_id = p_source_id LOOP
+    INSERT INTO sections (questionnaire_id, title, description, "order")
+    VALUES (v_new_id, v_section.title, v_section.description, v_section."order")
+    RETURNING id INTO v_new_section_id;
+
+    FOR v_question IN SELECT * FROM questions WHERE section_id = v_section.id LOOP
+      INSERT INTO questions (section_id, question_text, question_type, options, "order",
+                             condition_rule, condition_question_id, condition_answer)
+      VALUES (v_new_section_id, v_question.question_text, v_question.question_type, v_question.options,
+              v_question."order", v_question.condition_rule, NULL, v_question.condition_answer)
+      RETURNING id INTO v_new_question_id;
+
+      v_map := v_map || jsonb_build_object(v_question.id::text, v_new_question_id);
+    END LOOP;
+  END LOOP;
+
+  -- Conditions may point at questions in later sections, so they are
+  -- remapped once every question has its copy
+  UPDATE questions q
+  SET condition_rule = remap_condition_rule(src.condition_rule, v_map),
+      condition_question_id = (v_map->>src.condition_question_id::text)::uuid
+  FROM questions src
+  WHERE q.id = (v_map->>src.id::text)::uuid
+    AND (src.condition_rule IS NOT NULL OR src.condition_question_id IS NOT NULL);
+
+  INSERT INTO decision_matrix (question_id, use_case_id, triggering_answer, weight)
+  SELECT (v_map->>dm.question_id::text)::uuid, dm.use_case_id, dm.triggering_answer, dm.weight
+  FROM decision_matrix dm
+  WHERE v_map ? dm.question_id::text;
+
+  RETURN v_new_id;
+END;
+$$;
+
+-- Same as in 20260216000000_add_questionnaire_import.sql; plans without
+-- scoring settings get the column default.
+CREATE OR REPLACE FUNCTION import_questionnaire(p_plan jsonb)
+RETURNS uuid
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_new_id uuid;
+  v_section jsonb;
+  v_question jsonb;
+  v_new_section_id uuid;
+  v_new_question_id uuid;
+  v_map jsonb := '{}'::jsonb;
+BEGIN
+  INSERT INTO questionnaires (title, version, description, status, is_active)
+  VALUES (p_plan->>'title', p_plan->>'version', p_plan->>'description', 'draft', false)
+  RETURNING id INTO v_new_id;
+
+  IF p_plan->'scoring_settings' IS NOT NULL AND p_plan->'scoring_settings' <> 'null'::jsonb THEN
+    UPDATE questionnaires
+    SET scoring_settings = scoring_settings || (p_plan->'scoring_settings')
+    WHERE id = v_new_id;
+  END IF;
+
+  FOR v_section IN SELECT * FROM jsonb_array_elements(p_plan->'sections') LOOP
+    INSERT INTO sections (questionnaire_id, title, description, "order")
+    VALUES (v_new_id, v_section->>'title', v_section->>'description', (v_section->>'order')::int)
+    RETURNING id INTO v_new_section_id;
+
+    FOR v_question IN SELECT * FROM jsonb_array_elements(v_section->'questions') LOOP
+      INSERT INTO questions (section_id, question_text, question_type, options, "order", condition_rule)
+      VALUES (v_new_section_id, v_question->>'question_text', (v_question->>'question_type')::question_type,
+              NULLIF(v_question->'options', 'null'::jsonb), (v_question->>'order')::int,
+              NULLIF(v_question->'condition_rule', 'null'::jsonb))
+      RETURNING id INTO v_new_question_id;
+
+      v_map := v_map || jsonb_build_object(v_question->>'key', v_new_question_id);
+
+      INSERT INTO decision_matrix (question_id, use_case_id, triggering_answer, weight)
+      SELECT v_new_question_id, (m->>'use_case_id')::uuid, m->>'triggering_answer', (m->>'weight')::int
+      FROM jsonb_array_elements(v_question->'mappings') AS m;
+    END LOOP;
+  END LOOP;
+
+  -- Swap document keys for the new question ids
+  UPDATE questions q
+  SET condition_rule = remap_condition_rule(q.condition_rule, v_map)
+  FROM sections s
+  WHERE s.id = q.section_id
+    AND s.questionnaire_id = v_new_id
+    AND q.condition_rule IS NOT NULL;
+
+  RETURN v_new_id;
+END;
+$$;
@@ -0,0 +1,154 @@
+-- Migration: Row level security for questionnaire content and submissions
+-- Date: 2026-02-20
+
+-- The browser talks to PostgREST with the public anon key, so without RLS any
+-- visitor could read every submission or rewrite the decision matrix.
+--
+-- Content (questionnaires, sections, questions, use_cases, decision_matrix) is
+-- readable by everyone and writable by admins only.
+--
+-- Respondents are anonymous. Each submission carries a secret access_token,
+-- generated by the browser that creates it and sent back on every request in
+-- the x-submission-token header; only requests presenting it can read the
+-- submission, its responses and its results, and write responses while it is
+-- a draft. The process-submission edge function uses the service role and
+-- checks the token itself.
+
+ALTER TABLE submissions
+  ADD COLUMN access_token uuid NOT NULL DEFAULT gen_random_uuid();
+
+-- Whether the current request comes from an admin. Any signed-in user counts
+-- for now; public sign-up is disabled in supabase/config.toml.
+CREATE OR REPLACE FUNCTION is_admin()
+RETURNS boolean
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT auth.uid() IS NOT NULL;
+$$;
+
+-- Token sent in the x-submission-token request header, if any
+CREATE OR REPLACE FUNCTION request_submission_token()
+RETURNS TEXT
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT NULLIF(current_setting('request.headers', true), '')::json->>'x-submission-token';
+$$;
+
+-- Whether the request presents the token of p_submission_id. SECURITY
+-- DEFINER so the responses policies can look at submissions without going
+-- through its own policies.
+CREATE OR REPLACE FUNCTION owns_submission(p_submission_id uuid, p_draft_only BOOLEAN DEFAULT false)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM submissions
+    WHERE id = p_submission_id
+      AND access_token::text = request_submission_token()
+      AND (NOT p_draft_only OR status = 'draft')
+  );
+$$;
+
+-- Content tables
+ALTER TABLE questionnaires ENABLE ROW LEVEL SECURITY;
+ALTER TABLE sections ENABLE ROW LEVEL SECURITY;
+ALTER TABLE questions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE use_cases ENABLE ROW LEVEL SECURITY;
+ALTER TABLE decision_matrix ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Content is public" ON questionnaires FOR SELECT USING (true);
+CREATE POLICY "Admins manage content" ON questionnaires FOR ALL USING (is_admin()) WITH CHECK (is_admin());
+
+CREATE POLICY "Content is public" ON sections FOR SELECT USING (true);
+CREATE POLICY "Admins manage content" ON sections FOR ALL USING (is_admin()) WITH CHECK (is_admin());
+
+CREATE POLICY "Content is public" ON questions FOR SELECT USING (true);
+CREATE POLICY "Admins manage content" ON questions FOR ALL USING (is_admin()) WITH CHECK (is_admin());
+
+CREATE POLICY "Content is public" ON use_cases FOR SELECT USING (true);
+CREATE POLICY "Admins manage content" ON use_cases FOR ALL USING (is_admin()) WITH CHECK (is_admin());
+
+CREATE POLICY "Content is public" ON decision_matrix FOR SELECT USING (true);
+CREATE POLICY "Admins manage content" ON decision_matrix FOR ALL USING (is_admin()) WITH CHECK (is_admin());
+
+-- Submissions: anyone can start one, only its owner and admins can read it.
+-- Status changes go through finalize_submission() or the edge function.
+ALTER TABLE submissions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can start a submission" ON submissions FOR INSERT
+  WITH CHECK (status = 'draft' AND completed_at IS NULL);
+CREATE POLICY "Owners read their submission" ON submissions FOR SELECT
+  USING (access_token::text = request_submission_token());
+CREATE POLICY "Admins manage submissions" ON submissions FOR ALL USING (is_admin()) WITH CHECK (is_admin());
+
+-- Responses: owners answer while the submission is a draft and can read
+-- their answers back afterwards
+ALTER TABLE responses ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Owners read their responses" ON responses FOR SELECT
+  USING (owns_submission(submission_id));
+CREATE POLICY "Owners answer draft submissions" ON responses FOR INSERT
+  WITH CHECK (owns_submission(submission_id, true));
+CREATE POLICY "Owners change draft answers" ON responses FOR UPDATE
+  USING (owns_submission(submission_id, true)) WITH CHECK (owns_submission(submission_id, true));
+CREATE POLICY "Owners remove draft answers" ON responses FOR DELETE
+  USING (owns_submission(submission_id, true));
+CREATE POLICY "Admins manage responses" ON responses FOR ALL USING (is_admin()) WITH CHECK (is_admin());
+
+-- Results are written by the edge function only
+ALTER TABLE submission_results ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Owners read their results" ON submission_results FOR SELECT
+  USING (owns_submission(submission_id));
+CREATE POLICY "Admins manage results" ON submission_results FOR ALL USING (is_admin()) WITH CHECK (is_admin());
+
+-- Same as in 20260212000000_add_condition_rules.sql, but only for the
+-- submission's owner or an admin. Respondents cannot update submissions
+-- directly, so it runs with its owner's rights.
+CREATE OR REPLACE FUNCTION finalize_submission(p_submission_id uuid)
+RETURNS submission_status
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_submission submissions%ROWTYPE;
+  v_missing INT;
+BEGIN
+  SELECT * INTO v_submission FROM submissions WHERE id = p_submission_id FOR UPDATE;
+
+  IF NOT FOUND OR NOT (is_admin() OR owns_submission(p_submission_id)) THEN
+    RAISE EXCEPTION 'Submission not found';
+  END IF;
+
+  IF v_submission.status <> 'draft' THEN
+    RETURN v_submission.status;
+  END IF;
+
+  SELECT count(*) INTO v_missing
+  FROM questions q
+  JOIN sections s ON s.id = q.section_id
+  WHERE s.questionnaire_id = v_submission.questionnaire_id
+    AND NOT EXISTS (
+      SELECT 1 FROM responses r
+      WHERE r.submission_id = p_submission_id
+        AND r.question_id = q.id
+        AND r.answer NOT IN ('""'::jsonb, '[]'::jsonb)
+    )
+    AND question_is_visible(q.id, p_submission_id);
+
+  IF v_missing > 0 THEN
+    RAISE EXCEPTION 'Please answer all questions before submitting (% unanswered).', v_missing;
+  END IF;
+
+  UPDATE submissions SET status = 'completed', completed_at = now()
+  WHERE id = p_submission_id;
+
+  RETURN 'completed';
+END;
+$$;
@@ -0,0 +1,114 @@
+-- Migration: Admin roles instead of "every signed-in user is an admin"
+-- Date: 2026-02-21
+
+-- owner          → everything, including managing admin users
+-- content_editor → questionnaires, sections, questions, use cases and the
+--                  decision matrix
+-- matrix_editor  → the decision matrix only
+-- sales_viewer   → reads submissions and their results
+-- Every role can read submissions (the simulator and regression replay load
+-- answers from them); only owners change or delete them.
+CREATE TYPE admin_role AS ENUM ('owner', 'content_editor', 'matrix_editor', 'sales_viewer');
+
+CREATE TABLE admin_users (
+  user_id uuid PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+  email TEXT NOT NULL,
+  role admin_role NOT NULL,
+  invited_by uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ DEFAULT now()
+);
+
+-- Everyone who could sign in so far had full access; they stay owners
+INSERT INTO admin_users (user_id, email, role)
+SELECT id, COALESCE(email, ''), 'owner' FROM auth.users;
+
+-- Role of the signed-in user, NULL for respondents and users without one.
+-- SECURITY DEFINER so policies can call it without reading admin_users
+-- through its own policies.
+CREATE OR REPLACE FUNCTION admin_role()
+RETURNS admin_role
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT role FROM admin_users WHERE user_id = auth.uid();
+$$;
+
+CREATE OR REPLACE FUNCTION has_admin_role(VARIADIC p_roles admin_role[])
+RETURNS boolean
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT COALESCE(admin_role() = ANY(p_roles), false);
+$$;
+
+-- Any admin role; replaces the signed-in check from 20260220000000
+CREATE OR REPLACE FUNCTION is_admin()
+RETURNS boolean
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT admin_role() IS NOT NULL;
+$$;
+
+-- Removing or demoting the last owner would lock everyone out of user management
+CREATE OR REPLACE FUNCTION guard_last_owner()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF OLD.role = 'owner'
+     AND (TG_OP = 'DELETE' OR NEW.role <> 'owner')
+     AND NOT EXISTS (SELECT 1 FROM admin_users WHERE role = 'owner' AND user_id <> OLD.user_id) THEN
+    RAISE EXCEPTION 'At least one owner is required. Make someone else an owner first.';
+  END IF;
+  RETURN COALESCE(NEW, OLD);
+END;
+$$;
+
+CREATE TRIGGER admin_users_guard_last_owner
+  BEFORE UPDATE OF role OR DELETE ON admin_users
+  FOR EACH ROW EXECUTE FUNCTION guard_last_owner();
+
+ALTER TABLE admin_users ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins read their own role" ON admin_users FOR SELECT USING (user_id = auth.uid());
+CREATE POLICY "Owners manage admin users" ON admin_users FOR ALL
+  USING (has_admin_role('owner')) WITH CHECK (has_admin_role('owner'));
+
+-- Content
+DROP POLICY "Admins manage content" ON questionnaires;
+DROP POLICY "Admins manage content" ON sections;
+DROP POLICY "Admins manage content" ON questions;
+DROP POLICY "Admins manage content" ON use_cases;
+DROP POLICY "Admins manage content" ON decision_matrix;
+
+CREATE POLICY "Content editors manage content" ON questionnaires FOR ALL
+  USING (has_admin_role('owner', 'content_editor')) WITH CHECK (has_admin_role('owner', 'content_editor'));
+CREATE POLICY "Content editors manage content" ON sections FOR ALL
+  USING (has_admin_role('owner', 'content_editor')) WITH CHECK (has_admin_role('owner', 'content_editor'));
+CREATE POLICY "Content editors manage content" ON questions FOR ALL
+  USING (has_admin_role('owner', 'content_editor')) WITH CHECK (has_admin_role('owner', 'content_editor'));
+CREATE POLICY "Content editors manage content" ON use_cases FOR ALL
+  USING (has_admin_role('owner', 'content_editor')) WITH CHECK (has_admin_role('owner', 'content_editor'));
+CREATE POLICY "Matrix editors manage mappings" ON decision_matrix FOR ALL
+  USING (has_admin_role('owner', 'content_editor', 'matrix_editor'))
+  WITH CHECK (has_admin_role('owner', 'content_editor', 'matrix_editor'));
+
+-- Submissions, responses and results
+DROP POLICY "Admins manage submissions" ON submissions;
+DROP POLICY "Admins manage responses" ON responses;
+DROP POLICY "Admins manage results" ON submission_results;
+
+CREATE POLICY "Admins read submissions" ON submissions FOR SELECT USING (is_admin());
+CREATE POLICY "Owner role manages submissions" ON submissions FOR ALL
+  USING (has_admin_role('owner')) WITH CHECK (has_admin_role('owner'));
+
+CREATE POLICY "Admins read responses" ON responses FOR SELECT USING (is_admin());
+CREATE POLICY "Owner role manages responses" ON responses FOR ALL
+  USING (has_admin_role('owner')) WITH CHECK (has_admin_role('owner'));
+
+CREATE POLICY "Admins read results" ON submission_results FOR SELECT USING (is_admin());
+CREATE POLICY "Owner role manages results" ON submission_results FOR ALL
+  USING (has_admin_role('owner')) WITH CHECK (has_admin_role('owner'));
@@ -0,0 +1,45 @@
+-- Migration: One response per question, saved atomically
+-- Date: 2026-02-22
+
+-- The questionnaire used to delete an answer and insert its replacement as
+-- two requests, so a failure in between lost the answer and a retry could
+-- leave duplicates. Keep the newest answer of each question, which is the
+-- one condition_rule_matches() already reads, and enforce one per question.
+DELETE FROM responses
+WHERE id IN (
+  SELECT id FROM (
+    SELECT id, row_number() OVER (
+      PARTITION BY submission_id, question_id
+      ORDER BY created_at DESC NULLS LAST, id
+    ) AS rn
+    FROM responses
+  ) ranked
+  WHERE rn > 1
+);
+
+ALTER TABLE responses
+  ADD CONSTRAINT responses_submission_question_key UNIQUE (submission_id, question_id);
+
+-- Saves one answer and, in the same transaction, removes the answers to
+-- questions it hid (e.g. follow-ups of a "Yes" changed to "No"), so they are
+-- neither scored nor shown. Runs with the caller's rights: row level
+-- security limits respondents to their own draft submission.
+-- Returns the question ids whose answers were removed.
+CREATE OR REPLACE FUNCTION save_response(p_submission_id uuid, p_question_id uuid, p_answer jsonb)
+RETURNS SETOF uuid
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  INSERT INTO responses (submission_id, question_id, answer)
+  VALUES (p_submission_id, p_question_id, p_answer)
+  ON CONFLICT (submission_id, question_id) DO UPDATE SET answer = EXCLUDED.answer;
+
+  -- question_is_visible() follows the chain of conditions, so answers that
+  -- depended on a removed one go in the same pass
+  RETURN QUERY
+  DELETE FROM responses r
+  WHERE r.submission_id = p_submission_id
+    AND NOT question_is_visible(r.question_id, p_submission_id)
+  RETURNING r.question_id;
+END;
+$$;
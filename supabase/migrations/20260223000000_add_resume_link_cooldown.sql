@@ -0,0 +1,7 @@
+-- Migration: Rate limit "continue later" emails
+-- Date: 2026-02-23
+
+-- When the send-resume-link function last emailed a resume link for the
+-- submission. Anyone can start a submission with any address, so the
+-- function refuses to send again within its cooldown.
+ALTER TABLE submissions ADD COLUMN resume_link_sent_at TIMESTAMPTZ;
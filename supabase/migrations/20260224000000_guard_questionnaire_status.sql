@@ -0,0 +1,78 @@
+-- Migration: Enforce the questionnaire lifecycle in the database
+-- Date: 2026-02-24
+
+-- Status used to be a plain column, so anyone allowed to edit questionnaires
+-- could set the live version back to draft and edit it in place, or mark a
+-- version published without publish_questionnaire(). From now on:
+--   draft ↔ review                       → a plain UPDATE, as the admin does
+--   anything → published / archived,
+--   is_active and published_at           → publish_questionnaire() only
+--   new versions                         → always start as drafts
+-- publish_questionnaire() marks its transaction with a setting this trigger
+-- lets through; clients cannot set it through the API.
+CREATE OR REPLACE FUNCTION guard_questionnaire_status()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF current_setting('app.publishing_questionnaire', true) = 'on' THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'INSERT' THEN
+    IF NEW.status <> 'draft' THEN
+      RAISE EXCEPTION 'New versions start as drafts. Send them to review and publish them from there.';
+    END IF;
+    RETURN NEW;
+  END IF;
+
+  IF NEW.is_active IS DISTINCT FROM OLD.is_active OR NEW.published_at IS DISTINCT FROM OLD.published_at THEN
+    RAISE EXCEPTION 'Version % can only go live or be taken offline by publishing.', OLD.version;
+  END IF;
+
+  IF NEW.status <> OLD.status
+     AND NOT (OLD.status IN ('draft', 'review') AND NEW.status IN ('draft', 'review')) THEN
+    RAISE EXCEPTION 'Version % cannot move from % to %. Create a new draft version instead.', OLD.version, OLD.status, NEW.status;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER questionnaires_guard_status
+  BEFORE INSERT OR UPDATE ON questionnaires
+  FOR EACH ROW EXECUTE FUNCTION guard_questionnaire_status();
+
+-- Same as in 20260215000000_single_active_questionnaire.sql, but marks the
+-- transaction so guard_questionnaire_status() accepts its updates
+CREATE OR REPLACE FUNCTION publish_questionnaire(p_questionnaire_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_status questionnaire_status;
+BEGIN
+  -- Serialises concurrent publishes
+  LOCK TABLE questionnaires IN SHARE ROW EXCLUSIVE MODE;
+
+  SELECT status INTO v_status FROM questionnaires WHERE id = p_questionnaire_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Questionnaire not found';
+  END IF;
+
+  IF v_status NOT IN ('review', 'archived') THEN
+    RAISE EXCEPTION 'Only versions in review or archived versions can be published (this one is %).', v_status;
+  END IF;
+
+  PERFORM set_config('app.publishing_questionnaire', 'on', true);
+
+  UPDATE questionnaires SET status = 'archived', is_active = false
+  WHERE id <> p_questionnaire_id AND (status = 'published' OR is_active);
+
+  UPDATE questionnaires SET status = 'published', is_active = true, published_at = now()
+  WHERE id = p_questionnaire_id;
+
+  PERFORM set_config('app.publishing_questionnaire', 'off', true);
+END;
+$$;
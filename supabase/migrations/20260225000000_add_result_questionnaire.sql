@@ -0,0 +1,14 @@
+-- Migration: Record the questionnaire version a results snapshot was scored against
+-- Date: 2026-02-25
+
+-- matrix_version is now the fingerprint of the version's whole decision
+-- matrix rather than of the rows the respondent's answers touched, so it
+-- only means something together with the version it was taken from.
+-- Snapshots stored before this migration keep their old fingerprints.
+ALTER TABLE submission_results
+  ADD COLUMN questionnaire_id uuid REFERENCES questionnaires(id) ON DELETE SET NULL;
+
+UPDATE submission_results r
+SET questionnaire_id = s.questionnaire_id
+FROM submissions s
+WHERE s.id = r.submission_id;
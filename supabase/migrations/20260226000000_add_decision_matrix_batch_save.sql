@@ -0,0 +1,29 @@
+-- Migration: Save decision matrix grid edits in one transaction
+-- Date: 2026-02-26
+
+-- The grid used to send its inserts, updates and deletes as three parallel
+-- requests, so one failing left the others applied, and a cell cleared and
+-- set again in the same batch could be inserted before its old row was gone.
+-- Deletes run first, then updates, then inserts; any error rolls back all.
+-- p_inserts: [{"question_id", "use_case_id", "triggering_answer", "weight"}, ...]
+-- p_updates: the same plus "id"
+CREATE OR REPLACE FUNCTION save_decision_matrix_changes(p_inserts jsonb, p_updates jsonb, p_deletes uuid[])
+RETURNS void
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  DELETE FROM decision_matrix WHERE id = ANY(p_deletes);
+
+  UPDATE decision_matrix dm
+  SET question_id = (r->>'question_id')::uuid,
+      use_case_id = (r->>'use_case_id')::uuid,
+      triggering_answer = r->>'triggering_answer',
+      weight = (r->>'weight')::int
+  FROM jsonb_array_elements(p_updates) AS r
+  WHERE dm.id = (r->>'id')::uuid;
+
+  INSERT INTO decision_matrix (question_id, use_case_id, triggering_answer, weight)
+  SELECT (r->>'question_id')::uuid, (r->>'use_case_id')::uuid, r->>'triggering_answer', (r->>'weight')::int
+  FROM jsonb_array_elements(p_inserts) AS r;
+END;
+$$;
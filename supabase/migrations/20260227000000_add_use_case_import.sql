@@ -0,0 +1,39 @@
+-- Migration: Apply a use case catalogue upload in one transaction
+-- Date: 2026-02-27
+
+-- p_inserts: new use cases, as built by diffCatalogue() in
+--            supabase/functions/_shared/useCaseCatalogue.ts
+-- p_updates: the same plus "id"; only the keys present are changed, so
+--            columns left out of the sheet keep their values
+-- Updates run first so a title freed by a rename can be taken by a new row.
+-- Any failing row aborts the whole upload.
+CREATE OR REPLACE FUNCTION import_use_cases(p_inserts jsonb, p_updates jsonb)
+RETURNS INT
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_updated INT;
+  v_inserted INT;
+BEGIN
+  UPDATE use_cases uc
+  SET (use_case_number, title, category, sub_category, engagement_category,
+       why_it_matters, whats_included, key_deliverables, how_its_delivered) = (
+    SELECT m.use_case_number, m.title, m.category, m.sub_category, m.engagement_category,
+           m.why_it_matters, m.whats_included, m.key_deliverables, m.how_its_delivered
+    FROM jsonb_populate_record(uc, r - 'id') AS m
+  )
+  FROM jsonb_array_elements(p_updates) AS r
+  WHERE uc.id = (r->>'id')::uuid;
+
+  GET DIAGNOSTICS v_updated = ROW_COUNT;
+
+  INSERT INTO use_cases (use_case_number, title, category, sub_category, engagement_category,
+                         why_it_matters, whats_included, key_deliverables, how_its_delivered)
+  SELECT use_case_number, title, category, sub_category, engagement_category,
+         why_it_matters, whats_included, key_deliverables, how_its_delivered
+  FROM jsonb_populate_recordset(NULL::use_cases, p_inserts);
+
+  GET DIAGNOSTICS v_inserted = ROW_COUNT;
+  RETURN v_updated + v_inserted;
+END;
+$$;
@@ -204,24 +204,22 @@ DECLARE
   v_uc159 uuid;
 BEGIN
 
-  -- Clear existing data
-  DELETE FROM decision_matrix;
+  -- Clear existing data. Only drafts can have their content edited, so the
+  -- versions are deleted whole and take their sections, questions and
+  -- mappings with them.
   DELETE FROM responses;
   DELETE FROM submissions;
-  DELETE FROM questions;
-  DELETE FROM sections;
   DELETE FROM questionnaires;
   DELETE FROM use_cases;
 
   -- =============================================
   -- QUESTIONNAIRE
   -- =============================================
-  INSERT INTO questionnaires (title, version, description, is_active)
+  INSERT INTO questionnaires (title, version, description)
   VALUES (
     'SAP BTP & Business Data Cloud - Use Case Recommendation Questionnaire',
     '4.0',
-    'A comprehensive questionnaire to identify high-impact SAP BTP use cases for your organization.',
-    true
+    'A comprehensive questionnaire to identify high-impact SAP BTP use cases for your organization.'
   ) RETURNING id INTO v_qid;
 
   -- =============================================
@@ -3345,4 +3343,9 @@ AND s.title = 'Core Business Challenges' AND q.question_type = 'YesNo';
 UPDATE decision_matrix dm SET weight = 1
 FROM questions q, sections s
 WHERE dm.question_id = q.id AND q.section_id = s.id
-AND s.title = 'Strategic Technology Roadmap';
\ No newline at end of file
+AND s.title = 'Strategic Technology Roadmap';
+
+-- Publish the seeded version now that its content and weights are in place,
+-- through review like any other version
+UPDATE questionnaires SET status = 'review' WHERE version = '4.0';
+SELECT publish_questionnaire(id) FROM questionnaires WHERE version = '4.0';